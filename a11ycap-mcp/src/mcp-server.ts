@@ -198,6 +198,18 @@ async function handleGenericTool(
       }
     }
 
+    // Structured snapshots are returned as bare JSON so they can be parsed as-is
+    if (toolName === "take_snapshot" && params.format === "json") {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+
     // Format the response based on tool type
     let responseText = `Tool "${toolName}" executed successfully`;
 
@@ -12,9 +12,15 @@ import {
   normalizeWhiteSpace,
 } from '@isomorphic/stringUtils';
 import type { Box } from './domUtils';
-import { box, getElementComputedStyle, isElementVisible } from './domUtils';
+import {
+  box,
+  contentDocumentIfAccessible,
+  getElementComputedStyle,
+  isElementVisible,
+} from './domUtils';
 import type { ReactInfo } from './reactUtils';
 import { extractReactInfo } from './reactUtils';
+import { indexRefs, registerRef } from './refRegistry';
 import * as roleUtils from './roleUtils';
 import { yamlEscapeKeyIfNeeded, yamlEscapeValueIfNeeded } from './yamlUtils';
 
@@ -43,24 +49,34 @@ type AriaRef = {
 };
 
 let lastRef = 0;
+let lastFrameId = 0;
 
 export type AriaTreeOptions = {
   mode: 'ai' | 'expect' | 'codegen' | 'autoexpect';
   enableReact?: boolean;
   refPrefix?: string;
   includePosition?: boolean;
+  // Render only nodes in the viewport, or mark the ones outside of it
+  viewport?: 'only' | 'mark';
+  // Summarize runs of structurally identical siblings (AI mode only, on by default)
+  collapseRepeats?: boolean;
 };
 
+export type OffscreenPosition = 'above' | 'below' | 'left' | 'right';
+
 type InternalOptions = {
   visibility: 'aria' | 'ariaOrVisible' | 'ariaAndVisible';
   refs: 'all' | 'interactable' | 'none';
   enableReact?: boolean;
   refPrefix?: string;
   includeGenericRole?: boolean;
+  includeFormState?: boolean;
   renderCursorPointer?: boolean;
   renderActive?: boolean;
   renderStringsAsRegex?: boolean;
   includePosition?: boolean;
+  viewport?: 'only' | 'mark';
+  collapseRepeats?: boolean;
 };
 
 function toInternalOptions(options: AriaTreeOptions): InternalOptions {
@@ -72,9 +88,12 @@ function toInternalOptions(options: AriaTreeOptions): InternalOptions {
       enableReact: options.enableReact,
       refPrefix: options.refPrefix,
       includeGenericRole: true,
+      includeFormState: true,
       renderActive: true,
       renderCursorPointer: true,
       includePosition: options.includePosition ?? true, // Default to true for AI mode
+      viewport: options.viewport,
+      collapseRepeats: options.collapseRepeats ?? true,
     };
   }
   if (options.mode === 'autoexpect') {
@@ -85,6 +104,7 @@ function toInternalOptions(options: AriaTreeOptions): InternalOptions {
       enableReact: options.enableReact,
       refPrefix: options.refPrefix,
       includePosition: options.includePosition ?? false,
+      viewport: options.viewport,
     };
   }
   if (options.mode === 'codegen') {
@@ -96,6 +116,7 @@ function toInternalOptions(options: AriaTreeOptions): InternalOptions {
       refPrefix: options.refPrefix,
       renderStringsAsRegex: true,
       includePosition: options.includePosition ?? false,
+      viewport: options.viewport,
     };
   }
   // To match aria snapshot.
@@ -105,6 +126,7 @@ function toInternalOptions(options: AriaTreeOptions): InternalOptions {
     enableReact: options.enableReact,
     refPrefix: options.refPrefix,
     includePosition: options.includePosition ?? false,
+    viewport: options.viewport,
   };
 }
 
@@ -132,7 +154,8 @@ export function generateAriaTree(
   const visit = (
     ariaNode: AriaNode,
     node: Node,
-    parentElementVisible: boolean
+    parentElementVisible: boolean,
+    options: InternalOptions
   ) => {
     if (visited.has(node)) return;
     visited.add(node);
@@ -166,7 +189,7 @@ export function generateAriaTree(
       const ids = element.getAttribute('aria-owns')?.split(/\s+/);
       if (ids) {
         for (const id of ids) {
-          const ownedElement = rootElement.ownerDocument.getElementById(id);
+          const ownedElement = element.ownerDocument.getElementById(id);
           if (ownedElement) ariaChildren.push(ownedElement);
         }
       }
@@ -177,17 +200,31 @@ export function generateAriaTree(
       if (childAriaNode.ref) {
         snapshot.elements.set(childAriaNode.ref, element);
         snapshot.refs.set(element, childAriaNode.ref);
+        registerRef(
+          childAriaNode.ref,
+          element,
+          childAriaNode.role,
+          childAriaNode.name,
+          childAriaNode.react?.debugSource
+        );
       }
       ariaNode.children.push(childAriaNode);
     }
-    processElement(childAriaNode || ariaNode, element, ariaChildren, visible);
+    processElement(
+      childAriaNode || ariaNode,
+      element,
+      ariaChildren,
+      visible,
+      options
+    );
   };
 
   function processElement(
     ariaNode: AriaNode,
     element: Element,
     ariaChildren: Element[],
-    parentElementVisible: boolean
+    parentElementVisible: boolean,
+    options: InternalOptions
   ) {
     // Surround every element with spaces for the sake of concatenated text nodes.
     const display = getElementComputedStyle(element)?.display || 'inline';
@@ -202,11 +239,11 @@ export function generateAriaTree(
         : [];
     if (assignedNodes.length) {
       for (const child of assignedNodes)
-        visit(ariaNode, child, parentElementVisible);
+        visit(ariaNode, child, parentElementVisible, options);
     } else {
       for (let child = element.firstChild; child; child = child.nextSibling) {
         if (!(child as Element | Text).assignedSlot)
-          visit(ariaNode, child, parentElementVisible);
+          visit(ariaNode, child, parentElementVisible, options);
       }
       if (element.shadowRoot) {
         for (
@@ -214,12 +251,23 @@ export function generateAriaTree(
           child;
           child = child.nextSibling
         )
-          visit(ariaNode, child, parentElementVisible);
+          visit(ariaNode, child, parentElementVisible, options);
+      }
+      // Same-origin iframes are walked as part of the tree, with frame-scoped refs.
+      const frameDocument =
+        element.nodeName === 'IFRAME'
+          ? contentDocumentIfAccessible(element)
+          : undefined;
+      if (frameDocument?.body) {
+        visit(ariaNode, frameDocument.body, parentElementVisible, {
+          ...options,
+          refPrefix: `${options.refPrefix ?? ''}f${frameIdFor(element)}`,
+        });
       }
     }
 
     for (const child of ariaChildren)
-      visit(ariaNode, child, parentElementVisible);
+      visit(ariaNode, child, parentElementVisible, options);
 
     ariaNode.children.push(roleUtils.getCSSContent(element, '::after') || '');
 
@@ -241,16 +289,27 @@ export function generateAriaTree(
 
   roleUtils.beginAriaCaches();
   try {
-    visit(snapshot.root, rootElement, true);
+    visit(snapshot.root, rootElement, true, options);
   } finally {
     roleUtils.endAriaCaches();
   }
 
   normalizeStringChildren(snapshot.root);
   normalizeGenericRoles(snapshot.root);
+  indexRefs(snapshot.elements);
   return snapshot;
 }
 
+function frameIdFor(iframe: Element): number {
+  interface ElementWithFrameId extends Element {
+    _ariaFrameId?: number;
+  }
+
+  const element = iframe as ElementWithFrameId;
+  if (!element._ariaFrameId) element._ariaFrameId = ++lastFrameId;
+  return element._ariaFrameId;
+}
+
 function computeAriaRef(ariaNode: AriaNode, options: InternalOptions) {
   if (options.refs === 'none') return;
   if (
@@ -280,6 +339,57 @@ function computeAriaRef(ariaNode: AriaNode, options: InternalOptions) {
   ariaNode.ref = ariaRef.ref;
 }
 
+// Roles whose live value, placeholder and validity are rendered as props in AI mode
+const kFormStateRoles = [
+  'combobox',
+  'listbox',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'textbox',
+];
+
+const kPasswordMask = '••••';
+
+function formControlValue(element: Element): string {
+  if (element.nodeName === 'SELECT') {
+    return Array.from(
+      (element as HTMLSelectElement).selectedOptions,
+      (option) => normalizeWhiteSpace(option.label)
+    ).join(', ');
+  }
+  if (element.nodeName === 'INPUT' || element.nodeName === 'TEXTAREA') {
+    const input = element as HTMLInputElement | HTMLTextAreaElement;
+    // Never leak passwords, or their length, into snapshots
+    if (input.type === 'password') return input.value ? kPasswordMask : '';
+    return input.value;
+  }
+  return (
+    element.getAttribute('aria-valuetext') ??
+    element.getAttribute('aria-valuenow') ??
+    ''
+  );
+}
+
+/**
+ * Current value, placeholder and validity of a form control, so that the result of
+ * typing can be verified from the snapshot alone
+ */
+function formStateProps(element: Element): Record<string, string> {
+  const props: Record<string, string> = {};
+  const value = formControlValue(element);
+  if (value) props.value = value;
+  const placeholder =
+    element.getAttribute('placeholder') ||
+    element.getAttribute('aria-placeholder');
+  if (placeholder) props.placeholder = placeholder;
+  const invalid = roleUtils.getAriaInvalid(element);
+  if (invalid !== 'false') props.invalid = invalid;
+  const validationMessage = (element as HTMLInputElement).validationMessage;
+  if (validationMessage) props.validationMessage = validationMessage;
+  return props;
+}
+
 function toAriaNode(
   element: Element,
   options: InternalOptions
@@ -345,16 +455,22 @@ function toAriaNode(
   if (roleUtils.kAriaSelectedRoles.includes(role))
     result.selected = roleUtils.getAriaSelected(element);
 
+  const includeFormState =
+    options.includeFormState && kFormStateRoles.includes(role);
+  if (includeFormState) result.props = formStateProps(element);
+
+  // Compare node names rather than using instanceof: elements from iframes belong to another realm.
   if (
-    element instanceof HTMLInputElement ||
-    element instanceof HTMLTextAreaElement
+    !includeFormState &&
+    (element.nodeName === 'INPUT' || element.nodeName === 'TEXTAREA')
   ) {
+    const input = element as HTMLInputElement | HTMLTextAreaElement;
     if (
-      element.type !== 'checkbox' &&
-      element.type !== 'radio' &&
-      element.type !== 'file'
+      input.type !== 'checkbox' &&
+      input.type !== 'radio' &&
+      input.type !== 'file'
     )
-      result.children = [element.value];
+      result.children = [input.value];
   }
 
   // Extract React information if enabled
@@ -482,6 +598,22 @@ function matchesNode(
   if (node === null || typeof node !== 'object' || template.kind !== 'role')
     return false;
 
+  if (!matchesNodeAttributes(node, template)) return false;
+
+  // Proceed based on the container mode.
+  if (template.containerMode === 'contain')
+    return containsList(node.children || [], template.children || []);
+  if (template.containerMode === 'equal')
+    return listEqual(node.children || [], template.children || [], false);
+  if (template.containerMode === 'deep-equal' || isDeepEqual)
+    return listEqual(node.children || [], template.children || [], true);
+  return containsList(node.children || [], template.children || []);
+}
+
+function matchesNodeAttributes(
+  node: AriaNode,
+  template: AriaTemplateRoleNode
+): boolean {
   if (template.role !== 'fragment' && template.role !== node.role) return false;
   if (template.checked !== undefined && template.checked !== node.checked)
     return false;
@@ -497,15 +629,103 @@ function matchesNode(
     return false;
   if (!matchesName(node.name, template)) return false;
   if (!matchesText(node.props.url, template.props?.url)) return false;
+  return true;
+}
 
-  // Proceed based on the container mode.
-  if (template.containerMode === 'contain')
-    return containsList(node.children || [], template.children || []);
-  if (template.containerMode === 'equal')
-    return listEqual(node.children || [], template.children || [], false);
-  if (template.containerMode === 'deep-equal' || isDeepEqual)
-    return listEqual(node.children || [], template.children || [], true);
-  return containsList(node.children || [], template.children || []);
+/**
+ * Explain why a template does not match: for every template entry that cannot be found,
+ * report whether no element has its role and name, or which of its children are missing.
+ */
+export function explainExpectAriaTemplateMismatch(
+  rootElement: Element,
+  template: AriaTemplateNode
+): string[] {
+  const root = generateAriaTree(rootElement, { mode: 'expect' }).root;
+  const lines: string[] = [];
+
+  const descendants = (node: AriaNode): (AriaNode | string)[] => {
+    const result: (AriaNode | string)[] = [node];
+    for (const child of node.children) {
+      if (typeof child === 'string') result.push(child);
+      else result.push(...descendants(child));
+    }
+    return result;
+  };
+
+  const explain = (
+    candidates: (AriaNode | string)[],
+    template: AriaTemplateNode,
+    indent: string
+  ) => {
+    if (candidates.some((candidate) => matchesNode(candidate, template, false)))
+      return;
+
+    if (template.kind === 'text') {
+      lines.push(`${indent}- ${renderTemplateKey(template)}: not found`);
+      return;
+    }
+
+    if (template.role === 'fragment') {
+      for (const child of template.children || [])
+        explain(candidates, child, indent);
+      return;
+    }
+
+    const partialMatches = candidates.filter(
+      (candidate): candidate is AriaNode =>
+        typeof candidate !== 'string' &&
+        matchesNodeAttributes(candidate, template)
+    );
+    if (!partialMatches.length) {
+      lines.push(`${indent}- ${renderTemplateKey(template)}: not found`);
+      return;
+    }
+
+    // Explain the children of the candidate that satisfies most of them.
+    const childTemplates = template.children || [];
+    const score = (node: AriaNode) =>
+      childTemplates.filter((child) =>
+        node.children.some((c) => matchesNode(c, child, false))
+      ).length;
+    const best = partialMatches.reduce((a, b) => (score(b) > score(a) ? b : a));
+
+    lines.push(
+      `${indent}- ${renderTemplateKey(template)}: found, but its children do not match:`
+    );
+    const before = lines.length;
+    for (const child of childTemplates)
+      explain(best.children, child, `${indent}  `);
+    if (lines.length === before) {
+      lines.push(
+        `${indent}  - all children are present, but not in the expected order or with extra children`
+      );
+    }
+  };
+
+  explain(descendants(root), template, '');
+  return lines;
+}
+
+function renderTemplateText(text: AriaRegex | string): string {
+  return typeof text === 'string' ? JSON.stringify(text) : `/${text.pattern}/`;
+}
+
+function renderTemplateKey(template: AriaTemplateNode): string {
+  if (template.kind === 'text')
+    return `text ${renderTemplateText(template.text)}`;
+
+  let key: string = template.role;
+  if (template.name) key += ` ${renderTemplateText(template.name)}`;
+  if (template.checked !== undefined) key += ` [checked=${template.checked}]`;
+  if (template.disabled !== undefined)
+    key += ` [disabled=${template.disabled}]`;
+  if (template.expanded !== undefined)
+    key += ` [expanded=${template.expanded}]`;
+  if (template.level !== undefined) key += ` [level=${template.level}]`;
+  if (template.pressed !== undefined) key += ` [pressed=${template.pressed}]`;
+  if (template.selected !== undefined)
+    key += ` [selected=${template.selected}]`;
+  return key;
 }
 
 function listEqual(
@@ -561,30 +781,228 @@ function matchesNodeDeep(
   return results;
 }
 
-export function renderAriaTree(
-  ariaSnapshot: AriaSnapshot,
-  publicOptions: AriaTreeOptions
-): string {
-  const options = toInternalOptions(publicOptions);
-  const lines: string[] = [];
+/**
+ * Aria node as plain data, e.g. for JSON output: the DOM element and computed style are left out
+ */
+export type SerializedAriaNode = AriaProps & {
+  role: AriaNode['role'];
+  name: string;
+  ref?: string;
+  children: (SerializedAriaNode | string)[];
+  box: {
+    visible: boolean;
+    rect?: { x: number; y: number; width: number; height: number };
+  };
+  receivesPointerEvents: boolean;
+  props: Record<string, string>;
+  react?: ReactInfo;
+};
+
+export function serializeAriaTree(
+  ariaSnapshot: AriaSnapshot
+): SerializedAriaNode {
+  const serialize = (ariaNode: AriaNode): SerializedAriaNode => {
+    const { rect, visible } = ariaNode.box;
+    return {
+      role: ariaNode.role,
+      name: ariaNode.name,
+      ref: ariaNode.ref,
+      checked: ariaNode.checked,
+      disabled: ariaNode.disabled,
+      expanded: ariaNode.expanded,
+      active: ariaNode.active,
+      level: ariaNode.level,
+      pressed: ariaNode.pressed,
+      selected: ariaNode.selected,
+      props: { ...ariaNode.props },
+      box: {
+        visible,
+        rect: rect && {
+          x: rect.x,
+          y: rect.y,
+          width: rect.width,
+          height: rect.height,
+        },
+      },
+      receivesPointerEvents: ariaNode.receivesPointerEvents,
+      react: ariaNode.react && { ...ariaNode.react },
+      children: ariaNode.children.map((child) =>
+        typeof child === 'string' ? child : serialize(child)
+      ),
+    };
+  };
+  return serialize(ariaSnapshot.root);
+}
+
+/**
+ * Where a node was relative to the viewport of its frame when the tree was generated.
+ * Undefined when it intersected the viewport or has no layout box.
+ */
+export function getOffscreenPosition(
+  ariaNode: AriaNode
+): OffscreenPosition | undefined {
+  const rect = ariaNode.box.rect;
+  const view = ariaNode.element.ownerDocument.defaultView;
+  if (!ariaNode.box.visible || !rect || !view) return;
+  if (rect.bottom <= 0) return 'above';
+  if (rect.top >= view.innerHeight) return 'below';
+  if (rect.right <= 0) return 'left';
+  if (rect.left >= view.innerWidth) return 'right';
+}
+
+// Off-screen containers are kept when some of their descendants are on screen (e.g. position: fixed)
+function intersectsViewport(ariaNode: AriaNode): boolean {
+  return (
+    !getOffscreenPosition(ariaNode) ||
+    ariaNode.children.some(
+      (child) => typeof child !== 'string' && intersectsViewport(child)
+    )
+  );
+}
+
+// Run of structurally identical siblings that is rendered as a single summary line
+type CollapsedSiblings = { collapsed: AriaNode[] };
+
+type RenderItem = AriaNode | string | CollapsedSiblings;
+
+type RenderedNode = {
+  // Lines of the node itself, relative to its indent.
+  lines: string[];
+  // Children rendered as nested list items below the node.
+  children: RenderItem[];
+};
+
+// Runs of at least this many identical siblings are collapsed, keeping the first few
+const MIN_COLLAPSED_RUN = 6;
+const KEPT_OF_COLLAPSED_RUN = 3;
+
+const structuralSignatures = new WeakMap<AriaNode, string>();
+
+// Roles of the subtree, ignoring names and text, e.g. "listitem(link,#text)"
+function structuralSignature(ariaNode: AriaNode): string {
+  let signature = structuralSignatures.get(ariaNode);
+  if (signature === undefined) {
+    const children = ariaNode.children.map((child) =>
+      typeof child === 'string' ? '#text' : structuralSignature(child)
+    );
+    signature = children.length
+      ? `${ariaNode.role}(${children.join(',')})`
+      : ariaNode.role;
+    structuralSignatures.set(ariaNode, signature);
+  }
+  return signature;
+}
+
+function isCollapsedSiblings(item: RenderItem): item is CollapsedSiblings {
+  return typeof item !== 'string' && 'collapsed' in item;
+}
+
+function refOfItem(item: RenderItem): string | undefined {
+  return typeof item === 'string' || isCollapsedSiblings(item)
+    ? undefined
+    : item.ref;
+}
+
+function collapseRepeatedSiblings(
+  children: (AriaNode | string)[]
+): RenderItem[] {
+  const result: RenderItem[] = [];
+  for (let start = 0; start < children.length; ) {
+    const child = children[start];
+    if (typeof child === 'string') {
+      result.push(child);
+      start++;
+      continue;
+    }
+
+    const signature = structuralSignature(child);
+    let end = start + 1;
+    while (end < children.length) {
+      const sibling = children[end];
+      if (
+        typeof sibling === 'string' ||
+        structuralSignature(sibling) !== signature
+      )
+        break;
+      end++;
+    }
+
+    const run = children.slice(start, end) as AriaNode[];
+    if (run.length >= MIN_COLLAPSED_RUN) {
+      result.push(...run.slice(0, KEPT_OF_COLLAPSED_RUN));
+      result.push({ collapsed: run.slice(KEPT_OF_COLLAPSED_RUN) });
+    } else {
+      result.push(...run);
+    }
+    start = end;
+  }
+  return result;
+}
+
+// "e40–e43" for consecutive refs, "e40, e42, …, e50" for a constant stride, all refs otherwise
+function formatRefRun(refs: string[]): string {
+  if (refs.length < 3) return refs.join(', ');
+  const parsed = refs.map((ref) => /^(.*e)(\d+)$/.exec(ref));
+  const first = parsed[0];
+  const second = parsed[1];
+  if (first && second && first[1] === second[1]) {
+    const stride = Number(second[2]) - Number(first[2]);
+    const regular = parsed.every(
+      (match, index) =>
+        match &&
+        match[1] === first[1] &&
+        Number(match[2]) === Number(first[2]) + index * stride
+    );
+    if (regular && stride === 1) return `${refs[0]}–${refs[refs.length - 1]}`;
+    if (regular && stride > 1)
+      return `${refs[0]}, ${refs[1]}, …, ${refs[refs.length - 1]}`;
+  }
+  return refs.join(', ');
+}
+
+function renderCollapsedSiblings({ collapsed }: CollapsedSiblings): string {
+  let line = `- … ${collapsed.length} more ${collapsed[0].role} like above`;
+  const refs = collapsed
+    .map((node) => node.ref)
+    .filter((ref): ref is string => !!ref);
+  if (refs.length) line += `, refs ${formatRefRun(refs)}`;
+  return line;
+}
+
+function renderableChildren(
+  ariaNode: AriaNode,
+  options: InternalOptions
+): RenderItem[] {
+  return options.collapseRepeats
+    ? collapseRepeatedSiblings(ariaNode.children)
+    : ariaNode.children;
+}
+
+function createNodeRenderer(options: InternalOptions) {
   const includeText = options.renderStringsAsRegex
     ? textContributesInfo
     : () => true;
   const renderString = options.renderStringsAsRegex
     ? convertToBestGuessRegex
     : (str: string) => str;
-  const visit = (
-    ariaNode: AriaNode | string,
-    parentAriaNode: AriaNode | null,
-    indent: string
-  ) => {
+
+  return (
+    ariaNode: RenderItem,
+    parentAriaNode: AriaNode | null
+  ): RenderedNode => {
+    if (isCollapsedSiblings(ariaNode))
+      return { lines: [renderCollapsedSiblings(ariaNode)], children: [] };
+
     if (typeof ariaNode === 'string') {
-      if (parentAriaNode && !includeText(parentAriaNode, ariaNode)) return;
+      if (parentAriaNode && !includeText(parentAriaNode, ariaNode))
+        return { lines: [], children: [] };
       const text = yamlEscapeValueIfNeeded(renderString(ariaNode));
-      if (text) lines.push(`${indent}- text: ${text}`);
-      return;
+      return { lines: text ? [`- text: ${text}`] : [], children: [] };
     }
 
+    if (options.viewport === 'only' && !intersectsViewport(ariaNode))
+      return { lines: [], children: [] };
+
     let key = ariaNode.role;
     // Yaml has a limit of 1024 characters per key, and we leave some space for role and attributes.
     if (ariaNode.name && ariaNode.name.length <= 900) {
@@ -648,11 +1066,16 @@ export function renderAriaTree(
       key += ` [${x},${y},${w}x${h}]`;
     }
 
-    const escapedKey = `${indent}- ${yamlEscapeKeyIfNeeded(key)}`;
+    const offscreen =
+      options.viewport === 'mark' ? getOffscreenPosition(ariaNode) : undefined;
+    if (offscreen) key += ` [offscreen ${offscreen}]`;
+
+    const escapedKey = `- ${yamlEscapeKeyIfNeeded(key)}`;
     const hasProps = !!Object.keys(ariaNode.props).length;
     if (!ariaNode.children.length && !hasProps) {
-      lines.push(escapedKey);
-    } else if (
+      return { lines: [escapedKey], children: [] };
+    }
+    if (
       ariaNode.children.length === 1 &&
       typeof ariaNode.children[0] === 'string' &&
       !hasProps
@@ -660,27 +1083,284 @@ export function renderAriaTree(
       const text = includeText(ariaNode, ariaNode.children[0])
         ? renderString(ariaNode.children[0] as string)
         : null;
-      if (text) lines.push(`${escapedKey}: ${yamlEscapeValueIfNeeded(text)}`);
-      else lines.push(escapedKey);
-    } else {
-      lines.push(`${escapedKey}:`);
-      for (const [name, value] of Object.entries(ariaNode.props))
-        lines.push(`${indent}  - /${name}: ${yamlEscapeValueIfNeeded(value)}`);
-      for (const child of ariaNode.children || [])
-        visit(child, ariaNode, `${indent}  `);
+      return {
+        lines: [
+          text ? `${escapedKey}: ${yamlEscapeValueIfNeeded(text)}` : escapedKey,
+        ],
+        children: [],
+      };
     }
+    const lines = [`${escapedKey}:`];
+    for (const [name, value] of Object.entries(ariaNode.props))
+      lines.push(`  - /${name}: ${yamlEscapeValueIfNeeded(value)}`);
+    return { lines, children: renderableChildren(ariaNode, options) };
+  };
+}
+
+export function renderAriaTree(
+  ariaSnapshot: AriaSnapshot,
+  publicOptions: AriaTreeOptions
+): string {
+  const options = toInternalOptions(publicOptions);
+  const renderNode = createNodeRenderer(options);
+  const lines: string[] = [];
+  const visit = (
+    ariaNode: RenderItem,
+    parentAriaNode: AriaNode | null,
+    indent: string
+  ) => {
+    const rendered = renderNode(ariaNode, parentAriaNode);
+    for (const line of rendered.lines) lines.push(`${indent}${line}`);
+    for (const child of rendered.children)
+      visit(child, ariaNode as AriaNode, `${indent}  `);
   };
 
   const ariaNode = ariaSnapshot.root;
   if (ariaNode.role === 'fragment') {
     // Render fragment.
-    for (const child of ariaNode.children || []) visit(child, ariaNode, '');
+    for (const child of renderableChildren(ariaNode, options))
+      visit(child, ariaNode, '');
   } else {
     visit(ariaNode, null, '');
   }
   return lines.join('\n');
 }
 
+/**
+ * Children that were left out of a budgeted render, in document order: the rendered
+ * children of `parent` (after collapsing repeats) starting at index `start`.
+ * A fragment parent stands for the top level.
+ */
+export type AriaTreeFrontier = { parent: AriaNode; start: number }[];
+
+export type BudgetedRenderResult = {
+  text: string;
+  // Some nodes did not fit and were replaced with "… N more children" placeholders.
+  truncated: boolean;
+  // Not even the first line fitted, so it was cut short. On a continuation page the
+  // frontier is then returned unchanged.
+  rootTruncated: boolean;
+  // Where the next page continues; empty unless truncated.
+  frontier: AriaTreeFrontier;
+};
+
+type BudgetedEntry = {
+  node: RenderItem;
+  lines: string[];
+  children: BudgetedEntry[];
+  placeholder?: string;
+  omittedFrom?: AriaTreeFrontier[number];
+};
+
+/**
+ * Render the tree within a character budget. Every node is rendered exactly once and
+ * the budget is allocated breadth-first, so shallow nodes win over deep ones.
+ * Children that do not fit are summarized as "… N more children [expand=e5]", where
+ * the listed refs can be passed back to take_snapshot to expand the omitted branch.
+ *
+ * When `from` is given, only the frontier of a previous page is rendered, each branch
+ * under its parent's line.
+ */
+export function renderAriaTreeWithBudget(
+  ariaSnapshot: AriaSnapshot,
+  publicOptions: AriaTreeOptions,
+  maxChars: number,
+  from?: AriaTreeFrontier
+): BudgetedRenderResult {
+  const options = toInternalOptions(publicOptions);
+  const renderNode = createNodeRenderer(options);
+
+  type Group = {
+    parent: BudgetedEntry;
+    parentNode: AriaNode | null;
+    owner?: AriaNode;
+    items: RenderItem[];
+    start: number;
+    indent: string;
+    expandRef?: string;
+    reserved: number;
+  };
+
+  const placeholderFor = (
+    group: Group,
+    omitted: number,
+    omittedRefs: string[]
+  ) => {
+    const refs = group.expandRef ? [group.expandRef] : omittedRefs.slice(0, 3);
+    const expand = refs.length ? ` [expand=${refs.join(',')}]` : '';
+    const noun = omitted === 1 ? 'child' : 'children';
+    return `${group.indent}- … ${omitted} more ${noun}${expand}`;
+  };
+
+  // Upper bound of the placeholder a group may need, reserved before its children are measured.
+  const reserveFor = (group: Group) => {
+    const childRefs = group.items
+      .slice(group.start)
+      .map(refOfItem)
+      .filter((ref): ref is string => !!ref)
+      .sort((a, b) => b.length - a.length);
+    return (
+      placeholderFor(group, group.items.length - group.start, childRefs)
+        .length + 1
+    );
+  };
+
+  // Every line is counted with its trailing newline, except for the last one.
+  let remaining = maxChars + 1;
+  let truncated = false;
+
+  const queue: Group[] = [];
+  const enqueue = (group: Omit<Group, 'reserved'>) => {
+    const withReserve = { ...group, reserved: 0 };
+    withReserve.reserved = reserveFor(withReserve);
+    remaining -= withReserve.reserved;
+    queue.push(withReserve);
+  };
+
+  const root = ariaSnapshot.root;
+  const rootEntries: BudgetedEntry[] = [];
+  // Frontier branches whose parent line did not fit on this page.
+  const leftover: AriaTreeFrontier = [];
+  let firstLine: string | undefined;
+
+  if (!from) {
+    const rootEntry: BudgetedEntry = { node: root, lines: [], children: [] };
+    rootEntries.push(rootEntry);
+    enqueue({
+      parent: rootEntry,
+      parentNode: root.role === 'fragment' ? root : null,
+      owner: root.role === 'fragment' ? root : undefined,
+      items:
+        root.role === 'fragment' ? renderableChildren(root, options) : [root],
+      start: 0,
+      indent: '',
+      expandRef: root.ref,
+    });
+  } else {
+    for (const { parent, start } of from) {
+      const lines =
+        parent.role === 'fragment' ? [] : renderNode(parent, null).lines;
+      firstLine ??= lines[0];
+      const cost = lines.reduce((sum, line) => sum + line.length + 1, 0);
+      const group: Omit<Group, 'reserved'> = {
+        parent: { node: parent, lines, children: [] },
+        parentNode: parent,
+        owner: parent,
+        items: renderableChildren(parent, options),
+        start,
+        indent: lines.length ? '  ' : '',
+        expandRef: parent.ref,
+      };
+      if (
+        leftover.length ||
+        cost + reserveFor({ ...group, reserved: 0 }) > remaining
+      ) {
+        leftover.push({ parent, start });
+        continue;
+      }
+      remaining -= cost;
+      rootEntries.push(group.parent);
+      enqueue(group);
+    }
+  }
+
+  for (let i = 0; i < queue.length; i++) {
+    const group = queue[i];
+    let omitted = 0;
+    let omittedStart = group.start;
+    const omittedRefs: string[] = [];
+
+    for (let index = group.start; index < group.items.length; index++) {
+      const item = group.items[index];
+      const rendered = renderNode(item, group.parentNode);
+      if (!rendered.lines.length) continue;
+
+      const lines = rendered.lines.map((line) => `${group.indent}${line}`);
+      const cost = lines.reduce((sum, line) => sum + line.length + 1, 0);
+      // Once a sibling is omitted, the rest follow so the placeholder stays in document order.
+      if (omitted || cost > remaining) {
+        if (!omitted) omittedStart = index;
+        omitted++;
+        const ref = refOfItem(item);
+        if (ref) omittedRefs.push(ref);
+        continue;
+      }
+
+      remaining -= cost;
+      const entry: BudgetedEntry = { node: item, lines, children: [] };
+      group.parent.children.push(entry);
+      if (rendered.children.length) {
+        const node = item as AriaNode;
+        enqueue({
+          parent: entry,
+          parentNode: node,
+          owner: node,
+          items: rendered.children,
+          start: 0,
+          indent: `${group.indent}  `,
+          expandRef: node.ref ?? group.expandRef,
+        });
+      }
+    }
+
+    // Release the reservation, keeping only what the placeholder actually needs.
+    remaining += group.reserved;
+    if (omitted) {
+      truncated = true;
+      group.parent.placeholder = placeholderFor(group, omitted, omittedRefs);
+      if (group.owner)
+        group.parent.omittedFrom = { parent: group.owner, start: omittedStart };
+      remaining -= group.parent.placeholder.length + 1;
+    }
+  }
+
+  if (
+    !rootEntries.some((entry) => entry.children.length) &&
+    (truncated || leftover.length)
+  ) {
+    // Not even the first node fits: cut its first line to the budget.
+    if (!from) {
+      const topLevel =
+        root.role === 'fragment' ? renderableChildren(root, options) : [root];
+      firstLine = topLevel
+        .map((item) => renderNode(item, root.role === 'fragment' ? root : null))
+        .find((rendered) => rendered.lines.length)?.lines[0];
+    }
+    let text = (firstLine ?? '').replace(/:$/, '').slice(0, maxChars);
+
+    // Ensure we don't cut off in the middle of a bracket expression
+    const lastOpenBracket = text.lastIndexOf('[');
+    const lastCloseBracket = text.lastIndexOf(']');
+    if (lastOpenBracket > lastCloseBracket)
+      text = text.slice(0, lastOpenBracket).trimEnd();
+
+    // A continuation page consumed nothing, so its cursor stays valid for a larger budget.
+    return {
+      text,
+      truncated: true,
+      rootTruncated: true,
+      frontier: from ?? [],
+    };
+  }
+
+  const lines: string[] = [];
+  const frontier: AriaTreeFrontier = [];
+  const visit = (entry: BudgetedEntry) => {
+    lines.push(...entry.lines);
+    for (const child of entry.children) visit(child);
+    if (entry.placeholder) lines.push(entry.placeholder);
+    if (entry.omittedFrom) frontier.push(entry.omittedFrom);
+  };
+  for (const entry of rootEntries) visit(entry);
+  frontier.push(...leftover);
+  return {
+    text: lines.join('\n'),
+    truncated: truncated || leftover.length > 0,
+    rootTruncated: false,
+    frontier,
+  };
+}
+
 function convertToBestGuessRegex(text: string): string {
   const dynamicContent = [
     // 2mb
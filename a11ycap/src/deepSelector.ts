@@ -0,0 +1,105 @@
+/**
+ * CSS selectors that pierce open shadow roots via the ">>>" deep combinator,
+ * e.g. "app-dialog >>> button.primary" or ">>> input[name=email]".
+ */
+
+const DEEP_COMBINATOR = '>>>';
+
+/**
+ * Split a selector on a separator outside of quotes, brackets and parentheses
+ */
+function splitTopLevel(selector: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (char === '\\') {
+      i++;
+      continue;
+    }
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === '[' || char === '(') depth++;
+    else if (char === ']' || char === ')') depth--;
+    else if (depth === 0 && selector.startsWith(separator, i)) {
+      parts.push(selector.slice(start, i).trim());
+      i += separator.length - 1;
+      start = i + 1;
+    }
+  }
+  parts.push(selector.slice(start).trim());
+  return parts;
+}
+
+// Matches below the scope, including every open shadow tree nested inside it
+function queryAllPiercing(
+  scope: Document | Element | ShadowRoot,
+  selector: string,
+  result: Set<Element>
+): void {
+  for (const element of scope.querySelectorAll(selector)) result.add(element);
+  if ('shadowRoot' in scope && scope.shadowRoot)
+    queryAllPiercing(scope.shadowRoot, selector, result);
+  for (const element of scope.querySelectorAll('*')) {
+    if (element.shadowRoot)
+      queryAllPiercing(element.shadowRoot, selector, result);
+  }
+}
+
+function queryAllDeepChain(
+  chain: string,
+  selector: string,
+  root: Document | Element
+): Element[] {
+  const [first, ...rest] = splitTopLevel(chain, DEEP_COMBINATOR);
+  if (rest.some((part) => !part)) {
+    throw new Error(
+      `Invalid deep selector "${selector}": expected a selector after "${DEEP_COMBINATOR}"`
+    );
+  }
+
+  // A leading ">>>" searches the whole tree, shadow roots included
+  let scopes: Array<Document | Element> = first
+    ? Array.from(root.querySelectorAll(first))
+    : [root];
+  for (const part of rest) {
+    const matches = new Set<Element>();
+    for (const scope of scopes) queryAllPiercing(scope, part, matches);
+    scopes = Array.from(matches);
+  }
+  return scopes as Element[];
+}
+
+/**
+ * querySelectorAll with support for the ">>>" deep combinator.
+ * Selectors without ">>>" behave exactly like root.querySelectorAll.
+ */
+export function querySelectorAllDeep(
+  selector: string,
+  root: Document | Element = document
+): Element[] {
+  if (splitTopLevel(selector, DEEP_COMBINATOR).length === 1)
+    return Array.from(root.querySelectorAll(selector));
+
+  const matches = new Set<Element>();
+  for (const chain of splitTopLevel(selector, ',')) {
+    for (const element of queryAllDeepChain(chain, selector, root))
+      matches.add(element);
+  }
+  return Array.from(matches);
+}
+
+/**
+ * querySelector with support for the ">>>" deep combinator
+ */
+export function querySelectorDeep(
+  selector: string,
+  root: Document | Element = document
+): Element | null {
+  return querySelectorAllDeep(selector, root)[0] ?? null;
+}
@@ -71,6 +71,40 @@ export function closestCrossShadow(
   }
 }
 
+/**
+ * Returns the document of a same-origin iframe, or undefined when it is cross-origin or not loaded
+ */
+export function contentDocumentIfAccessible(
+  element: Element
+): Document | undefined {
+  try {
+    return (element as HTMLIFrameElement).contentDocument ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * All elements below root, descending into open shadow roots and, with
+ * `includeFrames`, into same-origin iframes
+ */
+export function collectElements(
+  root: Document | ShadowRoot | Element,
+  options: { includeFrames?: boolean } = {},
+  result: Element[] = []
+): Element[] {
+  for (const element of root.querySelectorAll('*')) {
+    result.push(element);
+    if (element.shadowRoot)
+      collectElements(element.shadowRoot, options, result);
+    if (options.includeFrames && element.nodeName === 'IFRAME') {
+      const frameDocument = contentDocumentIfAccessible(element);
+      if (frameDocument) collectElements(frameDocument, options, result);
+    }
+  }
+  return result;
+}
+
 export function getElementComputedStyle(
   element: Element,
   pseudo?: string
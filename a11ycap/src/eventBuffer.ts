@@ -101,6 +101,19 @@ export interface ElementPickedEvent extends BaseEvent {
   };
 }
 
+export interface AnnouncementEvent extends BaseEvent {
+  type: 'announcement';
+  text: string;
+  politeness: 'polite' | 'assertive';
+  region: {
+    role?: string;
+    name?: string;
+    tagName: string;
+    id?: string;
+    ariaRef?: string;
+  };
+}
+
 export type InteractionEvent =
   | ClickEvent
   | InputEvent
@@ -111,13 +124,42 @@ export type InteractionEvent =
 export type BufferedEvent =
   | ConsoleEvent
   | InteractionEvent
-  | ElementPickedEvent;
+  | ElementPickedEvent
+  | AnnouncementEvent;
 
 // Store events directly in sessionStorage with indexed keys
 const MAX_BUFFER_SIZE = 500;
 const EVENT_KEY_PREFIX = 'a11ycap_event_';
 const STATE_KEY = 'a11ycap_buffer_state';
 
+// Announcements have their own smaller buffer, so a chatty live region cannot
+// push interactions and console logs out of the main one
+const MAX_ANNOUNCEMENT_BUFFER_SIZE = 200;
+const ANNOUNCEMENT_KEY_PREFIX = 'a11ycap_announcement_';
+const ANNOUNCEMENT_STATE_KEY = 'a11ycap_announcement_state';
+
+interface EventStore {
+  keyPrefix: string;
+  stateKey: string;
+  maxSize: number;
+}
+
+const mainStore: EventStore = {
+  keyPrefix: EVENT_KEY_PREFIX,
+  stateKey: STATE_KEY,
+  maxSize: MAX_BUFFER_SIZE,
+};
+
+const announcementStore: EventStore = {
+  keyPrefix: ANNOUNCEMENT_KEY_PREFIX,
+  stateKey: ANNOUNCEMENT_STATE_KEY,
+  maxSize: MAX_ANNOUNCEMENT_BUFFER_SIZE,
+};
+
+function storeFor(type?: string): EventStore {
+  return type === 'announcement' ? announcementStore : mainStore;
+}
+
 interface BufferState {
   currentIndex: number;
   size: number;
@@ -127,13 +169,13 @@ interface BufferState {
 /**
  * Get buffer state from sessionStorage
  */
-function getBufferState(): BufferState {
+function getBufferState(store: EventStore = mainStore): BufferState {
   if (typeof window === 'undefined' || !window.sessionStorage) {
     return { currentIndex: 0, size: 0, oldestIndex: 0 };
   }
 
   try {
-    const stored = sessionStorage.getItem(STATE_KEY);
+    const stored = sessionStorage.getItem(store.stateKey);
     if (!stored) {
       return { currentIndex: 0, size: 0, oldestIndex: 0 };
     }
@@ -146,13 +188,16 @@ function getBufferState(): BufferState {
 /**
  * Save buffer state to sessionStorage
  */
-function saveBufferState(state: BufferState): void {
+function saveBufferState(
+  state: BufferState,
+  store: EventStore = mainStore
+): void {
   if (typeof window === 'undefined' || !window.sessionStorage) {
     return;
   }
 
   try {
-    sessionStorage.setItem(STATE_KEY, JSON.stringify(state));
+    sessionStorage.setItem(store.stateKey, JSON.stringify(state));
   } catch (error) {
     console.warn('Failed to save buffer state:', error);
   }
@@ -166,28 +211,29 @@ export function addEvent(event: BufferedEvent): void {
     return;
   }
 
-  const state = getBufferState();
+  const store = storeFor(event.type);
+  const state = getBufferState(store);
   const serializedEvent = JSON.stringify(event);
 
   // Store the event directly in sessionStorage
-  const eventKey = `${EVENT_KEY_PREFIX}${state.currentIndex}`;
+  const eventKey = `${store.keyPrefix}${state.currentIndex}`;
 
   try {
-    sessionStorage.setItem(eventKey, serializedEvent);
-
-    // Update state
-    state.currentIndex = (state.currentIndex + 1) % MAX_BUFFER_SIZE;
-
-    if (state.size < MAX_BUFFER_SIZE) {
+    if (state.size < store.maxSize) {
       state.size++;
     } else {
-      // Remove the oldest event that will be overwritten
-      const oldestKey = `${EVENT_KEY_PREFIX}${state.oldestIndex}`;
+      // Remove the oldest event before its slot is overwritten
+      const oldestKey = `${store.keyPrefix}${state.oldestIndex}`;
       sessionStorage.removeItem(oldestKey);
-      state.oldestIndex = (state.oldestIndex + 1) % MAX_BUFFER_SIZE;
+      state.oldestIndex = (state.oldestIndex + 1) % store.maxSize;
     }
 
-    saveBufferState(state);
+    sessionStorage.setItem(eventKey, serializedEvent);
+
+    // Update state
+    state.currentIndex = (state.currentIndex + 1) % store.maxSize;
+
+    saveBufferState(state, store);
   } catch (error) {
     console.warn('Failed to add event to buffer:', error);
   }
@@ -196,6 +242,7 @@ export function addEvent(event: BufferedEvent): void {
 /**
  * Get events from buffer with optional filtering
  * Returns serialized event strings ready for transmission
+ * Announcements are only returned when requested with type 'announcement'
  */
 export function getEvents(options?: {
   type?: string;
@@ -207,7 +254,8 @@ export function getEvents(options?: {
     return [];
   }
 
-  const state = getBufferState();
+  const store = storeFor(options?.type);
+  const state = getBufferState(store);
   if (state.size === 0) {
     return [];
   }
@@ -216,8 +264,8 @@ export function getEvents(options?: {
 
   // Iterate through events in chronological order
   for (let i = 0; i < state.size; i++) {
-    const index = (state.oldestIndex + i) % MAX_BUFFER_SIZE;
-    const eventKey = `${EVENT_KEY_PREFIX}${index}`;
+    const index = (state.oldestIndex + i) % store.maxSize;
+    const eventKey = `${store.keyPrefix}${index}`;
 
     try {
       const eventStr = sessionStorage.getItem(eventKey);
@@ -265,25 +313,27 @@ export function getEvents(options?: {
 }
 
 /**
- * Clear the event buffer
+ * Clear the event buffer, including recorded announcements
  */
 export function clearEvents(): void {
   if (typeof window === 'undefined' || !window.sessionStorage) {
     return;
   }
 
-  const state = getBufferState();
+  for (const store of [mainStore, announcementStore]) {
+    const state = getBufferState(store);
 
-  // Remove all event keys from sessionStorage
-  for (let i = 0; i < state.size; i++) {
-    const index = (state.oldestIndex + i) % MAX_BUFFER_SIZE;
-    const eventKey = `${EVENT_KEY_PREFIX}${index}`;
-    sessionStorage.removeItem(eventKey);
-  }
+    // Remove all event keys from sessionStorage
+    for (let i = 0; i < state.size; i++) {
+      const index = (state.oldestIndex + i) % store.maxSize;
+      const eventKey = `${store.keyPrefix}${index}`;
+      sessionStorage.removeItem(eventKey);
+    }
 
-  // Reset state
-  const newState: BufferState = { currentIndex: 0, size: 0, oldestIndex: 0 };
-  saveBufferState(newState);
+    // Reset state
+    const newState: BufferState = { currentIndex: 0, size: 0, oldestIndex: 0 };
+    saveBufferState(newState, store);
+  }
 }
 
 /**
@@ -0,0 +1,139 @@
+/**
+ * Sequential focus navigation: which elements the Tab key reaches, and in which order.
+ * Shared by the focus order report and the Tab key emulation.
+ */
+
+import { isElementStyleVisibilityVisible } from './domUtils.js';
+import * as roleUtils from './roleUtils.js';
+
+export type TabStop = {
+  element: Element;
+  tabIndex: number;
+  hidden?: string;
+};
+
+function isInternalUIElement(element: Element): boolean {
+  return (
+    element.classList.contains('a11ycap-ui') ||
+    element.localName.startsWith('x-a11ycap')
+  );
+}
+
+// Rendered children: the shadow tree of hosts and the assigned elements of slots
+function flatTreeChildren(element: Element): Element[] {
+  if (element.shadowRoot) return Array.from(element.shadowRoot.children);
+  if (element.nodeName === 'SLOT') {
+    const assigned = (element as HTMLSlotElement).assignedElements();
+    if (assigned.length) return assigned;
+  }
+  return Array.from(element.children);
+}
+
+export function collectFlatTree(
+  root: Element,
+  result: Element[] = []
+): Element[] {
+  for (const child of flatTreeChildren(root)) {
+    if (isInternalUIElement(child)) continue;
+    result.push(child);
+    collectFlatTree(child, result);
+  }
+  return result;
+}
+
+/**
+ * The tabindex an element takes part in sequential focus navigation with, or null when it cannot be focused
+ */
+function getTabIndex(element: Element): number | null {
+  const isEditingHost =
+    (element as HTMLElement).isContentEditable &&
+    !(element.parentElement as HTMLElement | null)?.isContentEditable;
+  if (!roleUtils.isFocusable(element) && !isEditingHost) return null;
+  if (element.closest('[inert]')) return null;
+  // Elements that are not rendered are skipped by the browser
+  if (!isElementStyleVisibilityVisible(element)) return null;
+  const tabIndex = Number.parseInt(element.getAttribute('tabindex') ?? '', 10);
+  return Number.isNaN(tabIndex) ? 0 : tabIndex;
+}
+
+// Only the checked radio of a group, or its first one, is a tab stop
+function radioGroupKey(element: Element): string | undefined {
+  if (element.nodeName !== 'INPUT') return;
+  const input = element as HTMLInputElement;
+  if (input.type !== 'radio' || !input.name) return;
+  return input.name;
+}
+
+/**
+ * Tab stops among the elements in sequential focus navigation order, and the radios only
+ * reachable with arrow keys
+ */
+export function computeTabStops(elements: Element[]): {
+  stops: TabStop[];
+  arrowKeyRadios: Set<Element>;
+} {
+  const focusable: TabStop[] = [];
+  for (const element of elements) {
+    const tabIndex = getTabIndex(element);
+    if (tabIndex === null || tabIndex < 0) continue;
+    focusable.push({ element, tabIndex });
+  }
+
+  const radioGroups = new Map<Node, Map<string, TabStop[]>>();
+  for (const stop of focusable) {
+    const key = radioGroupKey(stop.element);
+    if (!key) continue;
+    const scope =
+      (stop.element as HTMLInputElement).form ?? stop.element.getRootNode();
+    const groups = radioGroups.get(scope) ?? new Map<string, TabStop[]>();
+    groups.set(key, [...(groups.get(key) ?? []), stop]);
+    radioGroups.set(scope, groups);
+  }
+  const arrowKeyRadios = new Set<Element>();
+  for (const groups of radioGroups.values()) {
+    for (const radios of groups.values()) {
+      const checked = radios.find(
+        (stop) => (stop.element as HTMLInputElement).checked
+      );
+      const kept = checked ?? radios[0];
+      for (const stop of radios) {
+        if (stop !== kept) arrowKeyRadios.add(stop.element);
+      }
+    }
+  }
+
+  // Positive tabindex first in ascending order, then document order (sort is stable)
+  const stops = focusable
+    .filter((stop) => !arrowKeyRadios.has(stop.element))
+    .sort((a, b) => {
+      if (a.tabIndex > 0 && b.tabIndex > 0) return a.tabIndex - b.tabIndex;
+      if (a.tabIndex > 0) return -1;
+      if (b.tabIndex > 0) return 1;
+      return 0;
+    });
+  return { stops, arrowKeyRadios };
+}
+
+/**
+ * The element Tab (or Shift+Tab) moves focus to from the given element, or undefined when
+ * focus would leave the page
+ */
+export function nextTabStop(
+  from: Element | null,
+  backwards: boolean
+): Element | undefined {
+  const { stops } = computeTabStops(collectFlatTree(document.documentElement));
+  const order = stops.map((stop) => stop.element);
+  if (backwards) order.reverse();
+
+  const index = from ? order.indexOf(from) : -1;
+  if (index !== -1) return order[index + 1];
+  if (!from || from === document.body) return order[0];
+  // Focus is on an element outside of the tab order: continue from its position in the document
+  const following = backwards
+    ? Node.DOCUMENT_POSITION_PRECEDING
+    : Node.DOCUMENT_POSITION_FOLLOWING;
+  return order.find(
+    (element) => from.compareDocumentPosition(element) & following
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * In-page overlay that numbers tab stops so a human can check the focus order at a glance
+ */
+
+export interface FocusOrderOverlayEntry {
+  element: Element;
+  label: string;
+  kind: 'stop' | 'positive' | 'unreachable';
+}
+
+const OVERLAY_TAG = 'x-a11ycap-focus-order';
+
+const kOverlayStyles = `
+  :host {
+    font-family: system-ui, -apple-system, sans-serif;
+  }
+
+  .outline {
+    position: absolute;
+    border: 2px solid #2563eb;
+    box-sizing: border-box;
+    pointer-events: none;
+  }
+
+  .outline.positive {
+    border-color: #d97706;
+  }
+
+  .outline.unreachable {
+    border: 2px dashed #dc2626;
+  }
+
+  .badge {
+    position: absolute;
+    top: -10px;
+    left: -10px;
+    min-width: 20px;
+    height: 20px;
+    padding: 0 4px;
+    border-radius: 10px;
+    box-sizing: border-box;
+    background: #2563eb;
+    color: white;
+    font-size: 11px;
+    font-weight: 600;
+    line-height: 20px;
+    text-align: center;
+    white-space: nowrap;
+  }
+
+  .positive .badge {
+    background: #d97706;
+  }
+
+  .unreachable .badge {
+    background: #dc2626;
+  }
+`;
+
+/**
+ * Remove the focus order overlay, returning whether one was shown
+ */
+export function hideFocusOrderOverlay(): boolean {
+  const existing = document.querySelector(OVERLAY_TAG);
+  existing?.remove();
+  return !!existing;
+}
+
+/**
+ * Outline and number the given elements, replacing any previous overlay
+ */
+export function showFocusOrderOverlay(entries: FocusOrderOverlayEntry[]): void {
+  hideFocusOrderOverlay();
+
+  const host = document.createElement(OVERLAY_TAG);
+  host.className = 'a11ycap-ui';
+  // Positioned in document coordinates so that it scrolls with the page
+  host.style.position = 'absolute';
+  host.style.top = '0';
+  host.style.left = '0';
+  host.style.width = '0';
+  host.style.height = '0';
+  host.style.overflow = 'visible';
+  host.style.zIndex = '2147483647';
+  host.style.pointerEvents = 'none';
+
+  const shadow = host.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = kOverlayStyles;
+  shadow.appendChild(style);
+
+  for (const entry of entries) {
+    const rect = entry.element.getBoundingClientRect();
+    if (rect.width === 0 && rect.height === 0) continue;
+
+    const outline = document.createElement('div');
+    outline.className = `outline ${entry.kind}`;
+    outline.style.left = `${rect.left + window.scrollX}px`;
+    outline.style.top = `${rect.top + window.scrollY}px`;
+    outline.style.width = `${rect.width}px`;
+    outline.style.height = `${rect.height}px`;
+
+    const badge = document.createElement('div');
+    badge.className = 'badge';
+    badge.textContent = entry.label;
+    outline.appendChild(badge);
+    shadow.appendChild(outline);
+  }
+
+  document.documentElement.appendChild(host);
+}
@@ -1,13 +1,43 @@
 // Browser-compatible entry point
 
-import { generateAriaTree, renderAriaTree } from './ariaSnapshot';
+import {
+  type AriaSnapshot,
+  type AriaTreeFrontier,
+  type AriaTreeOptions,
+  generateAriaTree,
+  renderAriaTree,
+  renderAriaTreeWithBudget,
+  type SerializedAriaNode,
+  serializeAriaTree,
+} from './ariaSnapshot';
+import { isInsideScope } from './domUtils';
 import { ElementPicker, getElementPicker } from './elementPickerSimple';
 import { getMainMenu } from './mainMenu';
+import { dispatchClick } from './pointerActions';
 import { extractReactInfo } from './reactUtils';
+import { lookupRef, type ResolvedRef, rebindRef } from './refRegistry';
+import {
+  type AriaSnapshotDiff,
+  diffAriaSnapshots,
+  getLastSnapshotId,
+  getSnapshotCursor,
+  getStoredSnapshot,
+  recordSnapshot,
+  recordSnapshotCursor,
+  renderAriaSnapshotDiff,
+  type StoredSnapshot,
+} from './snapshotHistory';
+import { renderViewportHeader } from './viewport';
 
 // Re-export the browser-compatible ariaSnapshot functionality
 export { generateAriaTree, renderAriaTree, extractReactInfo };
-export type { AriaNode, AriaSnapshot, AriaTreeOptions } from './ariaSnapshot';
+export type {
+  AriaNode,
+  AriaSnapshot,
+  AriaTreeFrontier,
+  AriaTreeOptions,
+  SerializedAriaNode,
+} from './ariaSnapshot';
 
 // Re-export element picker functionality
 export { getElementPicker, ElementPicker };
@@ -18,6 +48,9 @@ export {
   restoreConsole,
 } from './consoleForwarder.js';
 export type { PickedElement } from './elementPickerSimple';
+export type { RefResolution, ResolvedRef } from './refRegistry';
+// Re-export snapshot history functionality
+export { diffAriaSnapshots, getLastSnapshotId, getStoredSnapshot };
 // Re-export eventBuffer functionality
 export {
   addEvent,
@@ -35,6 +68,11 @@ export {
 } from './mcpConnection.js';
 // Re-export MCP tool definitions
 export { type McpToolDefinition, toolDefinitions } from './mcpTools.js';
+export type {
+  AriaNodeSummary,
+  AriaSnapshotDiff,
+  StoredSnapshot,
+} from './snapshotHistory';
 // Export tool handlers for browser use
 export { toolHandlers } from './tools/index.js';
 // Re-export message types
@@ -62,6 +100,14 @@ export {
 
 import { installInteractionForwarders } from './interactionForwarder.js';
 
+// Re-export live region monitor functionality
+export {
+  disconnectLiveRegionMonitor,
+  installLiveRegionMonitor,
+} from './liveRegionMonitor.js';
+
+import { installLiveRegionMonitor } from './liveRegionMonitor.js';
+
 // Global page UUID
 let currentPageUUID = '';
 
@@ -87,6 +133,7 @@ if (typeof window !== 'undefined') {
   installConsoleForwarders();
   // Install interaction forwarders but don't start recording automatically
   installInteractionForwarders();
+  installLiveRegionMonitor();
 
   // Initialize page UUID
   currentPageUUID = generatePageUUID();
@@ -164,16 +211,27 @@ function restoreCRADevOverlay(overlay: HTMLElement | null): void {
   }
 }
 
-// General snapshot function supporting all modes
-export async function snapshot(
+type SnapshotOptions = {
+  mode?: 'ai' | 'expect' | 'codegen' | 'autoexpect';
+  enableReact?: boolean;
+  refPrefix?: string;
+  baseline?: string;
+  viewport?: 'only' | 'mark';
+  collapseRepeats?: boolean;
+};
+
+/**
+ * Generate and record the aria tree of an element, resolving the baseline to diff against
+ */
+async function captureSnapshot(
   element: Element,
-  options: {
-    mode?: 'ai' | 'expect' | 'codegen' | 'autoexpect';
-    enableReact?: boolean;
-    refPrefix?: string;
-    max_chars?: number;
-  } = {}
-): Promise<string> {
+  options: SnapshotOptions
+): Promise<{
+  tree: AriaSnapshot;
+  snapshotId: string;
+  renderOptions: AriaTreeOptions;
+  baseline?: StoredSnapshot;
+}> {
   if (!element || element.nodeType !== Node.ELEMENT_NODE) {
     throw new Error('Can only capture aria snapshot of Element nodes.');
   }
@@ -188,126 +246,146 @@ export async function snapshot(
     }
 
     const mode = options.mode || 'expect';
-    const tree = generateAriaTree(element, {
-      mode,
-      enableReact: options.enableReact,
-      refPrefix: options.refPrefix,
-    });
-
-    // If max_chars is specified, use breadth-first rendering with size limit
-    if (options.max_chars) {
-      return renderAriaTreeWithSizeLimit(tree, {
-        mode,
-        enableReact: options.enableReact,
-        refPrefix: options.refPrefix,
-        max_chars: options.max_chars,
-      });
+    const baseline = options.baseline
+      ? getStoredSnapshot(options.baseline)
+      : undefined;
+    if (options.baseline && !baseline) {
+      throw new Error(
+        `Snapshot "${options.baseline}" not found. Only the most recent snapshots are kept; take a new snapshot without a baseline.`
+      );
     }
 
-    return renderAriaTree(tree, {
+    const renderOptions: AriaTreeOptions = {
       mode,
       enableReact: options.enableReact,
       refPrefix: options.refPrefix,
-    });
+      viewport: options.viewport,
+      collapseRepeats: options.collapseRepeats,
+    };
+    const tree = generateAriaTree(element, renderOptions);
+    const snapshotId = recordSnapshot(tree, renderOptions);
+    return { tree, snapshotId, renderOptions, baseline };
   } finally {
     // Restore overlay after snapshot
     restoreCRADevOverlay(overlay);
   }
 }
 
-/**
- * Render aria tree with size limit using breadth-first expansion
- */
-function renderAriaTreeWithSizeLimit(
-  tree: any,
-  options: {
-    mode: 'ai' | 'expect' | 'codegen' | 'autoexpect';
-    enableReact?: boolean;
-    refPrefix?: string;
-    max_chars: number;
+// General snapshot function supporting all modes
+export async function snapshot(
+  element: Element,
+  options: SnapshotOptions & { max_chars?: number } = {}
+): Promise<string> {
+  const { tree, snapshotId, renderOptions, baseline } = await captureSnapshot(
+    element,
+    options
+  );
+
+  // If a baseline is specified, only report what changed since then
+  if (baseline) {
+    const current = getStoredSnapshot(snapshotId)!;
+    return renderAriaSnapshotDiff(diffAriaSnapshots(baseline, current));
   }
-): string {
-  // Start with just the root node
-  let currentTree = { ...tree, children: [] };
-  let lastValidResult = renderAriaTree(currentTree, options);
-
-  if (lastValidResult.length > options.max_chars) {
-    // Even root node exceeds limit, return truncated version with warning
-    let truncated = lastValidResult.slice(0, options.max_chars);
-
-    // Ensure we don't cut off in the middle of a bracket expression
-    // Find the last complete bracket pair or cut before any incomplete one
-    const lastOpenBracket = truncated.lastIndexOf('[');
-    const lastCloseBracket = truncated.lastIndexOf(']');
-
-    if (lastOpenBracket > lastCloseBracket) {
-      // We have an unclosed bracket, truncate before it
-      truncated = truncated.slice(0, lastOpenBracket).trimEnd();
-    }
 
-    return `${truncated}\n\n[WARNING: Snapshot was truncated due to size limit. Even the root element exceeded the limit. To get a focused snapshot of a specific element, use take_snapshot with the 'refs' parameter, e.g., take_snapshot(refs=["e5"]) to snapshot just that element and its children, or use 'selector' to target specific elements, e.g., take_snapshot(selector=".button").]`;
+  // Viewport-aware snapshots start with the scroll state of the page
+  const header = options.viewport
+    ? `${renderViewportHeader(element, tree)}\n\n`
+    : '';
+
+  // If max_chars is specified, render within that budget
+  if (options.max_chars) {
+    return `${header}${renderAriaTreeWithSizeLimit(tree, snapshotId, {
+      ...renderOptions,
+      max_chars: Math.max(options.max_chars - header.length, 1),
+    })}`;
   }
 
-  // Breadth-first expansion
-  const queue = tree.children
-    ? [
-        ...tree.children.map((child: any, index: number) => ({
-          child,
-          path: [index],
-        })),
-      ]
-    : [];
-
-  let wasTruncated = false;
-
-  while (queue.length > 0) {
-    const { child, path } = queue.shift()!;
+  return `${header}${renderAriaTree(tree, renderOptions)}`;
+}
 
-    // Try adding this child to the tree
-    const testTree = JSON.parse(JSON.stringify(currentTree));
-    addChildAtPath(testTree, path, child);
+/**
+ * Structured snapshot of an element: the aria tree without DOM handles, plus the
+ * structured diff when a baseline is given
+ */
+export async function snapshotJSON(
+  element: Element,
+  options: Omit<SnapshotOptions, 'viewport' | 'collapseRepeats'> = {}
+): Promise<AriaSnapshotJSON> {
+  const { tree, snapshotId, baseline } = await captureSnapshot(
+    element,
+    options
+  );
+  const result: AriaSnapshotJSON = {
+    snapshotId,
+    root: serializeAriaTree(tree),
+  };
+  if (baseline)
+    result.diff = diffAriaSnapshots(baseline, getStoredSnapshot(snapshotId)!);
+  return result;
+}
 
-    const testResult = renderAriaTree(testTree, options);
+export type AriaSnapshotJSON = {
+  snapshotId: string;
+  root: SerializedAriaNode;
+  diff?: AriaSnapshotDiff;
+};
 
-    if (testResult.length <= options.max_chars) {
-      // This child fits, keep it and add its children to queue
-      currentTree = testTree;
-      lastValidResult = testResult;
+/**
+ * Render aria tree within a character budget, summarizing omitted children.
+ * When truncated, a cursor to the next page is recorded on the stored snapshot.
+ */
+function renderAriaTreeWithSizeLimit(
+  tree: AriaSnapshot,
+  snapshotId: string,
+  options: AriaTreeOptions & { max_chars: number },
+  from?: AriaTreeFrontier
+): string {
+  const { text, truncated, rootTruncated, frontier } = renderAriaTreeWithBudget(
+    tree,
+    options,
+    options.max_chars,
+    from
+  );
+
+  if (rootTruncated && frontier.length) {
+    const cursor = recordSnapshotCursor(snapshotId, frontier);
+    return `${text}\n\n[WARNING: Snapshot was truncated due to size limit. The next part of the snapshot does not fit in max_chars, so it was cut short.]\n[CURSOR: ${cursor}] Call take_snapshot(cursor="${cursor}") with a larger max_chars to get the next page of this snapshot.`;
+  }
 
-      if (child.children) {
-        child.children.forEach((grandchild: any, index: number) => {
-          queue.push({ child: grandchild, path: [...path, index] });
-        });
-      }
-    } else {
-      // This child doesn't fit, mark as truncated
-      wasTruncated = true;
-    }
+  if (rootTruncated) {
+    return `${text}\n\n[WARNING: Snapshot was truncated due to size limit. Even the root element exceeded the limit. To get a focused snapshot of a specific element, use take_snapshot with the 'refs' parameter, e.g., take_snapshot(refs=["e5"]) to snapshot just that element and its children, or use 'selector' to target specific elements, e.g., take_snapshot(selector=".button").]`;
   }
 
-  // Add truncation warning if the snapshot was limited
-  if (wasTruncated) {
-    lastValidResult +=
-      '\n\n[WARNING: Snapshot was truncated due to size limit. Some elements may be missing. To get a focused snapshot of a specific element, use take_snapshot with the \'refs\' parameter, e.g., take_snapshot(refs=["e5"]) to snapshot just that element and its children, or use \'selector\' to target specific elements, e.g., take_snapshot(selector=".button").]';
+  if (truncated) {
+    const cursor = recordSnapshotCursor(snapshotId, frontier);
+    return `${text}\n\n[WARNING: Snapshot was truncated due to size limit. Omitted children are summarized as "… N more children [expand=e5]"; pass the listed refs to take_snapshot, e.g., take_snapshot(refs=["e5"]), to expand that part of the tree, or use 'selector' to target specific elements, e.g., take_snapshot(selector=".button").]\n[CURSOR: ${cursor}] Call take_snapshot(cursor="${cursor}") to get the next page of this snapshot.`;
   }
 
-  return lastValidResult;
+  return text;
 }
 
 /**
- * Add a child node at the specified path in the tree
+ * Render the next page of a truncated snapshot from its stored tree.
+ * The tree is not regenerated, so refs stay the same as on the previous page.
  */
-function addChildAtPath(tree: any, path: number[], child: any): void {
-  let current = tree;
-  for (let i = 0; i < path.length - 1; i++) {
-    if (!current.children) current.children = [];
-    if (!current.children[path[i]]) {
-      current.children[path[i]] = { children: [] };
-    }
-    current = current.children[path[i]];
+export function continueSnapshot(
+  cursor: string,
+  options: { max_chars?: number } = {}
+): string {
+  const entry = getSnapshotCursor(cursor);
+  if (!entry) {
+    throw new Error(
+      `Cursor "${cursor}" not found. Only the most recent snapshots are kept; take a new snapshot instead.`
+    );
   }
-  if (!current.children) current.children = [];
-  current.children[path[path.length - 1]] = { ...child, children: [] };
+
+  const { snapshot: stored, frontier } = entry;
+  return renderAriaTreeWithSizeLimit(
+    stored.snapshot,
+    stored.id,
+    { ...stored.options, max_chars: options.max_chars || 4096 },
+    frontier
+  );
 }
 
 // Simple browser-compatible wrapper for snapshotForAI (AI mode)
@@ -317,6 +395,9 @@ export async function snapshotForAI(
     enableReact?: boolean;
     refPrefix?: string;
     max_chars?: number;
+    baseline?: string;
+    viewport?: 'only' | 'mark';
+    collapseRepeats?: boolean;
   } = {}
 ): Promise<string> {
   // The snapshot function already handles overlay hiding/restoring
@@ -324,7 +405,8 @@ export async function snapshotForAI(
 }
 
 /**
- * Click on an element by its snapshot ref
+ * Click on an element by its snapshot ref, without waiting for it to be actionable
+ * (the click_element tool does that)
  * @param ref - The ref from a snapshot (e.g., 'e2', 'e5')
  * @param element - Optional root element to search within (defaults to document.body)
  */
@@ -343,13 +425,12 @@ export function clickRef(
   const overlay = hideCRADevOverlay();
 
   try {
-    // Click the element
-    const clickEvent = new MouseEvent('click', {
-      bubbles: true,
-      cancelable: true,
-      view: window,
+    // Click the center of the element with the full pointer event sequence
+    const rect = targetElement.getBoundingClientRect();
+    dispatchClick(targetElement, {
+      x: rect.left + rect.width / 2,
+      y: rect.top + rect.height / 2,
     });
-    targetElement.dispatchEvent(clickEvent);
     return true;
   } catch (error) {
     console.error(`Failed to click element with ref="${ref}":`, error);
@@ -360,30 +441,47 @@ export function clickRef(
   }
 }
 
+// Whether the element is inside root, across shadow roots and same-origin iframes
+function isWithinRoot(root: Element, element: Element): boolean {
+  for (
+    let current: Element | null | undefined = element;
+    current;
+    current = current.ownerDocument.defaultView?.frameElement
+  ) {
+    if (isInsideScope(root, current)) return true;
+  }
+  return false;
+}
+
 /**
- * Find an element by its snapshot ref
- * @param ref - The ref to search for (e.g., 'e2', 'e5')
+ * Find an element by its snapshot ref, including refs inside open shadow roots and same-origin iframes
+ * @param ref - The ref to search for (e.g., 'e2', 'e5', or 'f1e12' inside a frame)
  * @param element - Root element to search within
  */
 export function findElementByRef(
   ref: string,
   element: Element = document.body
 ): Element | null {
-  // Check if the element itself has the ref
-  if ((element as any)._ariaRef?.ref === ref) {
-    return element;
-  }
+  // Every snapshot indexes its refs, so there is no need to walk the DOM
+  const found = lookupRef(ref);
+  if (!found || !isWithinRoot(element, found)) return null;
+  return found;
+}
 
-  // Recursively search children
-  for (const child of element.children) {
-    if ((child as any)._ariaRef?.ref === ref) {
-      return child;
-    }
+/**
+ * Resolve a snapshot ref, falling back to its fingerprint when the original element is gone
+ * @param ref - The ref to resolve (e.g., 'e2', 'e5')
+ * @returns The element and whether it was found exactly or re-bound heuristically
+ */
+export function resolveElementByRef(ref: string): ResolvedRef | null {
+  const element = findElementByRef(ref);
+  if (element) {
+    return { element, resolution: 'exact' };
+  }
 
-    const found = findElementByRef(ref, child);
-    if (found) {
-      return found;
-    }
+  const rebound = rebindRef(ref);
+  if (rebound) {
+    return { element: rebound, resolution: 'rebound' };
   }
 
   return null;
@@ -439,11 +537,17 @@ export function waitForReactDevTools(timeout = 1000): Promise<boolean> {
 interface A11yCapGlobal {
   snapshotForAI: typeof snapshotForAI;
   snapshot: typeof snapshot;
+  snapshotJSON: typeof snapshotJSON;
+  continueSnapshot: typeof continueSnapshot;
   extractReactInfo: typeof extractReactInfo;
   clickRef: typeof clickRef;
   findElementByRef: typeof findElementByRef;
+  resolveElementByRef: typeof resolveElementByRef;
   generateAriaTree: typeof generateAriaTree;
   renderAriaTree: typeof renderAriaTree;
+  getLastSnapshotId: typeof getLastSnapshotId;
+  getStoredSnapshot: typeof getStoredSnapshot;
+  diffAriaSnapshots: typeof diffAriaSnapshots;
   initializeMCPConnection: (wsUrl: string) => any;
   getElementPicker: typeof getElementPicker;
   toolHandlers: any;
@@ -455,6 +559,10 @@ interface A11yCapGlobal {
   restoreConsole: any;
   installInteractionForwarders: any;
   restoreInteractionForwarders: any;
+  startRecording: any;
+  stopRecording: any;
+  installLiveRegionMonitor: any;
+  disconnectLiveRegionMonitor: any;
 }
 
 declare global {
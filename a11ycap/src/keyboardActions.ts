@@ -0,0 +1,770 @@
+/**
+ * Keyboard input that behaves like a real user: chords such as "Control+Shift+K" are
+ * pressed with the key, code and keyCode a US keyboard produces, and the default actions
+ * browsers skip for synthetic events are emulated: focus navigation with Tab, form
+ * submission with Enter, activation with Space and text editing in text fields and
+ * contenteditable editors.
+ */
+
+import { nextTabStop } from './focusNavigation.js';
+import type { KeyboardModifier } from './pointerActions.js';
+import { describeElement } from './refRegistry.js';
+
+export type KeyDescription = {
+  key: string;
+  code: string;
+  keyCode: number;
+  // Character the key types, empty for keys that do not type
+  text: string;
+  // KeyboardEvent.location: 0 standard, 1 left, 2 right, 3 numpad
+  location: number;
+};
+
+export interface PressKeyOptions {
+  // Emulate what the browser does after an uncancelled keydown
+  defaultActions?: boolean;
+}
+
+// code: [keyCode, key, key with Shift held, location]
+type LayoutEntry = [number, string, string?, number?];
+
+const kUSKeyboardLayout: Record<string, LayoutEntry> = {
+  Escape: [27, 'Escape'],
+  Backquote: [192, '`', '~'],
+  Digit1: [49, '1', '!'],
+  Digit2: [50, '2', '@'],
+  Digit3: [51, '3', '#'],
+  Digit4: [52, '4', '$'],
+  Digit5: [53, '5', '%'],
+  Digit6: [54, '6', '^'],
+  Digit7: [55, '7', '&'],
+  Digit8: [56, '8', '*'],
+  Digit9: [57, '9', '('],
+  Digit0: [48, '0', ')'],
+  Minus: [189, '-', '_'],
+  Equal: [187, '=', '+'],
+  Backslash: [220, '\\', '|'],
+  Backspace: [8, 'Backspace'],
+  Tab: [9, 'Tab'],
+  BracketLeft: [219, '[', '{'],
+  BracketRight: [221, ']', '}'],
+  CapsLock: [20, 'CapsLock'],
+  Semicolon: [186, ';', ':'],
+  Quote: [222, "'", '"'],
+  Enter: [13, 'Enter'],
+  ShiftLeft: [16, 'Shift', undefined, 1],
+  ShiftRight: [16, 'Shift', undefined, 2],
+  Comma: [188, ',', '<'],
+  Period: [190, '.', '>'],
+  Slash: [191, '/', '?'],
+  ControlLeft: [17, 'Control', undefined, 1],
+  ControlRight: [17, 'Control', undefined, 2],
+  MetaLeft: [91, 'Meta', undefined, 1],
+  MetaRight: [92, 'Meta', undefined, 2],
+  AltLeft: [18, 'Alt', undefined, 1],
+  AltRight: [18, 'Alt', undefined, 2],
+  Space: [32, ' '],
+  ContextMenu: [93, 'ContextMenu'],
+  PrintScreen: [44, 'PrintScreen'],
+  ScrollLock: [145, 'ScrollLock'],
+  Pause: [19, 'Pause'],
+  Insert: [45, 'Insert'],
+  Home: [36, 'Home'],
+  PageUp: [33, 'PageUp'],
+  Delete: [46, 'Delete'],
+  End: [35, 'End'],
+  PageDown: [34, 'PageDown'],
+  ArrowUp: [38, 'ArrowUp'],
+  ArrowLeft: [37, 'ArrowLeft'],
+  ArrowDown: [40, 'ArrowDown'],
+  ArrowRight: [39, 'ArrowRight'],
+  NumLock: [144, 'NumLock'],
+  NumpadDivide: [111, '/', undefined, 3],
+  NumpadMultiply: [106, '*', undefined, 3],
+  NumpadSubtract: [109, '-', undefined, 3],
+  NumpadAdd: [107, '+', undefined, 3],
+  NumpadDecimal: [110, '.', undefined, 3],
+  NumpadEnter: [13, 'Enter', undefined, 3],
+};
+for (let i = 1; i <= 12; i++) kUSKeyboardLayout[`F${i}`] = [111 + i, `F${i}`];
+for (let i = 0; i < 26; i++) {
+  const letter = String.fromCharCode(97 + i);
+  kUSKeyboardLayout[`Key${letter.toUpperCase()}`] = [
+    65 + i,
+    letter,
+    letter.toUpperCase(),
+  ];
+}
+for (let i = 0; i <= 9; i++)
+  kUSKeyboardLayout[`Numpad${i}`] = [96 + i, String(i), undefined, 3];
+
+// Lookup by key name and by code; the first key of the layout with a name wins, so "1"
+// is Digit1 rather than Numpad1 and "Shift" is ShiftLeft
+const kKeyDescriptions = new Map<string, KeyDescription>();
+// Description of each code with Shift held
+const kShiftedDescriptions = new Map<string, KeyDescription>();
+
+function keyText(key: string): string {
+  if (key === 'Enter') return '\r';
+  return key.length === 1 ? key : '';
+}
+
+for (const [code, [keyCode, key, shiftKey, location = 0]] of Object.entries(
+  kUSKeyboardLayout
+)) {
+  const description = { key, code, keyCode, text: keyText(key), location };
+  kKeyDescriptions.set(code, description);
+  if (!kKeyDescriptions.has(key)) kKeyDescriptions.set(key, description);
+  if (!shiftKey) continue;
+  const shifted = { ...description, key: shiftKey, text: shiftKey };
+  kShiftedDescriptions.set(code, shifted);
+  if (!kKeyDescriptions.has(shiftKey)) kKeyDescriptions.set(shiftKey, shifted);
+}
+
+const kModifiers: KeyboardModifier[] = ['Alt', 'Control', 'Meta', 'Shift'];
+
+function isMac(): boolean {
+  return /Mac|iPhone|iPad/.test(navigator.platform);
+}
+
+// "ControlOrMeta" is Meta on macOS and Control elsewhere, like in Playwright
+function resolveKeyName(name: string): string {
+  if (name === 'ControlOrMeta') return isMac() ? 'Meta' : 'Control';
+  return name;
+}
+
+function describeKey(name: string): KeyDescription {
+  const resolved = resolveKeyName(name);
+  const description = kKeyDescriptions.get(resolved);
+  if (description) return description;
+  // Characters that are not on a US keyboard are typed without a code
+  if ([...resolved].length === 1)
+    return { key: resolved, code: '', keyCode: 0, text: resolved, location: 0 };
+  // Other key values such as "F13", "MediaPlayPause" or "AltGraph" are pressed
+  // without a code, like keys of a keyboard that is not US
+  if (/^[A-Z][A-Za-z0-9]+$/.test(resolved))
+    return { key: resolved, code: '', keyCode: 0, text: '', location: 0 };
+  throw new Error(
+    `Unknown key "${name}". Use a key name such as "Enter", "ArrowLeft" or "F5", a code such as "KeyA", or a single character`
+  );
+}
+
+// Split on "+" while keeping "+" itself as a key, as in "Control++"
+function splitChord(chord: string): string[] {
+  const keys: string[] = [];
+  let building = '';
+  for (const char of chord) {
+    if (char === '+' && building) {
+      keys.push(building);
+      building = '';
+    } else {
+      building += char;
+    }
+  }
+  keys.push(building);
+  return keys;
+}
+
+/**
+ * Parse a Playwright-style chord such as "Control+Shift+K" into the modifiers to hold
+ * and the key to press
+ */
+export function parseChord(chord: string): {
+  modifiers: KeyboardModifier[];
+  key: KeyDescription;
+} {
+  const names = splitChord(chord);
+  const keyName = names.pop() ?? '';
+  if (!keyName) throw new Error(`Invalid key chord "${chord}"`);
+  const modifiers = names.map((name) => {
+    const modifier = resolveKeyName(name) as KeyboardModifier;
+    if (!kModifiers.includes(modifier))
+      throw new Error(
+        `Invalid key chord "${chord}": "${name}" is not a modifier (Alt, Control, ControlOrMeta, Meta or Shift)`
+      );
+    return modifier;
+  });
+  return { modifiers, key: describeKey(keyName) };
+}
+
+/**
+ * Deepest focused element, looking into open shadow roots
+ */
+export function deepActiveElement(doc: Document = document): Element | null {
+  let active = doc.activeElement;
+  while (active?.shadowRoot?.activeElement)
+    active = active.shadowRoot.activeElement;
+  return active;
+}
+
+function windowOf(target: Element | Document): Window & typeof globalThis {
+  const doc = 'defaultView' in target ? target : target.ownerDocument;
+  return doc.defaultView ?? window;
+}
+
+function dispatchKey(
+  target: Element | Document,
+  type: 'keydown' | 'keypress' | 'keyup',
+  key: KeyDescription,
+  modifiers: Set<KeyboardModifier>
+): boolean {
+  const win = windowOf(target);
+  // keypress reports the character code in keyCode and charCode instead of the key code
+  const keyCode = type === 'keypress' ? key.text.charCodeAt(0) : key.keyCode;
+  const init = {
+    key: key.key,
+    code: key.code,
+    location: key.location,
+    keyCode,
+    charCode: type === 'keypress' ? keyCode : 0,
+    which: keyCode,
+    altKey: modifiers.has('Alt'),
+    ctrlKey: modifiers.has('Control'),
+    metaKey: modifiers.has('Meta'),
+    shiftKey: modifiers.has('Shift'),
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    view: win,
+  };
+  return target.dispatchEvent(new win.KeyboardEvent(type, init));
+}
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+const kTextInputTypes = [
+  'email',
+  'number',
+  'password',
+  'search',
+  'tel',
+  'text',
+  'url',
+];
+
+function asTextField(element: Element): TextField | undefined {
+  if (element.nodeName === 'TEXTAREA') return element as HTMLTextAreaElement;
+  if (
+    element.nodeName === 'INPUT' &&
+    kTextInputTypes.includes((element as HTMLInputElement).type)
+  )
+    return element as HTMLInputElement;
+}
+
+// email and number inputs do not expose their selection; the caret is at the end
+function getSelectionRange(field: TextField): {
+  anchor: number;
+  focus: number;
+} {
+  const { selectionStart, selectionEnd, selectionDirection } = field;
+  if (selectionStart === null || selectionEnd === null)
+    return { anchor: field.value.length, focus: field.value.length };
+  return selectionDirection === 'backward'
+    ? { anchor: selectionEnd, focus: selectionStart }
+    : { anchor: selectionStart, focus: selectionEnd };
+}
+
+function setSelectionRange(field: TextField, anchor: number, focus: number) {
+  if (field.selectionStart === null) return;
+  field.setSelectionRange(
+    Math.min(anchor, focus),
+    Math.max(anchor, focus),
+    focus < anchor ? 'backward' : 'forward'
+  );
+}
+
+/**
+ * Set the value through the prototype setter, so frameworks that track the value on the
+ * element (React) see the change
+ */
+function setNativeValue(field: TextField, value: string) {
+  const setter = Object.getOwnPropertyDescriptor(
+    Object.getPrototypeOf(field),
+    'value'
+  )?.set;
+  if (setter) setter.call(field, value);
+  else field.value = value;
+}
+
+function replaceText(
+  field: TextField,
+  start: number,
+  end: number,
+  text: string,
+  inputType: string
+): string {
+  if (field.readOnly || field.disabled)
+    return `none, ${describeElement(field)} is ${field.disabled ? 'disabled' : 'read-only'}`;
+  const value = field.value;
+  if (
+    text &&
+    field.hasAttribute('maxlength') &&
+    field.maxLength >= 0 &&
+    value.length - (end - start) + text.length > field.maxLength
+  )
+    return `none, ${describeElement(field)} is at its maxlength of ${field.maxLength}`;
+
+  const win = windowOf(field);
+  const data = inputType === 'insertText' ? text : null;
+  const InputEventClass = win.InputEvent ?? win.Event;
+  const init = { inputType, data, bubbles: true, composed: true };
+  if (
+    !field.dispatchEvent(
+      new InputEventClass('beforeinput', { ...init, cancelable: true })
+    )
+  )
+    return `none, the beforeinput event was cancelled`;
+
+  setNativeValue(field, value.slice(0, start) + text + value.slice(end));
+  setSelectionRange(field, start + text.length, start + text.length);
+  field.dispatchEvent(new InputEventClass('input', init));
+  return `${inputType} in ${describeElement(field)}, value is now ${JSON.stringify(field.value)}`;
+}
+
+// Caret position after a navigation key, or undefined when the key does not move it
+function movedCaret(
+  field: TextField,
+  key: string,
+  focus: number
+): number | undefined {
+  const value = field.value;
+  const lineStart = value.lastIndexOf('\n', focus - 1) + 1;
+  const nextBreak = value.indexOf('\n', focus);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const multiline = field.nodeName === 'TEXTAREA';
+  switch (key) {
+    case 'ArrowLeft':
+      return Math.max(0, focus - 1);
+    case 'ArrowRight':
+      return Math.min(value.length, focus + 1);
+    case 'Home':
+      return multiline ? lineStart : 0;
+    case 'End':
+      return multiline ? lineEnd : value.length;
+    case 'ArrowUp': {
+      if (!multiline || lineStart === 0) return 0;
+      const previousStart = value.lastIndexOf('\n', lineStart - 2) + 1;
+      return Math.min(previousStart + focus - lineStart, lineStart - 1);
+    }
+    case 'ArrowDown': {
+      if (!multiline || nextBreak === -1) return value.length;
+      const following = value.indexOf('\n', lineEnd + 1);
+      const followingEnd = following === -1 ? value.length : following;
+      return Math.min(lineEnd + 1 + focus - lineStart, followingEnd);
+    }
+  }
+}
+
+function stepNumber(field: HTMLInputElement, up: boolean): string {
+  if (field.readOnly || field.disabled)
+    return `none, ${describeElement(field)} is ${field.disabled ? 'disabled' : 'read-only'}`;
+  if (up) field.stepUp();
+  else field.stepDown();
+  field.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
+  field.dispatchEvent(new Event('change', { bubbles: true }));
+  return `stepped ${describeElement(field)} ${up ? 'up' : 'down'} to ${field.value}`;
+}
+
+function editTextField(
+  field: TextField,
+  key: KeyDescription,
+  shift: boolean
+): string | undefined {
+  const { anchor, focus } = getSelectionRange(field);
+  const start = Math.min(anchor, focus);
+  const end = Math.max(anchor, focus);
+
+  if (
+    field.nodeName === 'INPUT' &&
+    (field as HTMLInputElement).type === 'number' &&
+    (key.key === 'ArrowUp' || key.key === 'ArrowDown')
+  )
+    return stepNumber(field as HTMLInputElement, key.key === 'ArrowUp');
+
+  switch (key.key) {
+    case 'Backspace':
+      if (start === end && start === 0)
+        return 'none, the caret is at the start';
+      return replaceText(
+        field,
+        start === end ? start - 1 : start,
+        end,
+        '',
+        'deleteContentBackward'
+      );
+    case 'Delete':
+      if (start === end && end === field.value.length)
+        return 'none, the caret is at the end';
+      return replaceText(
+        field,
+        start,
+        start === end ? end + 1 : end,
+        '',
+        'deleteContentForward'
+      );
+    case 'Enter':
+      // Enter submits single-line inputs
+      if (field.nodeName !== 'TEXTAREA') return;
+      return replaceText(field, start, end, '\n', 'insertLineBreak');
+  }
+
+  const moved = movedCaret(field, key.key, focus);
+  if (moved !== undefined) {
+    // Without Shift, horizontal arrows first collapse a selection to its edge
+    let caret = moved;
+    if (!shift && start !== end && key.key === 'ArrowLeft') caret = start;
+    if (!shift && start !== end && key.key === 'ArrowRight') caret = end;
+    setSelectionRange(field, shift ? anchor : caret, caret);
+    return shift
+      ? `selected ${field.selectionEnd! - field.selectionStart!} characters in ${describeElement(field)}`
+      : `moved the caret to ${caret} in ${describeElement(field)}`;
+  }
+
+  if (key.text) return replaceText(field, start, end, key.text, 'insertText');
+}
+
+/**
+ * Submit the form an input belongs to like pressing Enter does: click the default button,
+ * or submit directly when no other field would block implicit submission
+ */
+function implicitSubmit(field: HTMLInputElement): string | undefined {
+  const form = field.form;
+  if (!form) return;
+  const defaultButton = Array.from(form.elements).find(
+    (element) =>
+      (element.nodeName === 'BUTTON' &&
+        (element as HTMLButtonElement).type === 'submit') ||
+      (element.nodeName === 'INPUT' &&
+        ['submit', 'image'].includes((element as HTMLInputElement).type))
+  ) as HTMLButtonElement | HTMLInputElement | undefined;
+  if (defaultButton) {
+    if (defaultButton.disabled)
+      return `none, the default button ${describeElement(defaultButton)} is disabled`;
+    defaultButton.click();
+    return `submitted the form by clicking ${describeElement(defaultButton)}`;
+  }
+  const blocking = Array.from(form.elements).filter((element) =>
+    asTextField(element)
+  );
+  if (blocking.length > 1)
+    return 'none, the form has no submit button and more than one text field';
+  form.requestSubmit();
+  return 'submitted the form';
+}
+
+// Native controls that Enter or Space click
+const kActivatedByEnter = ['A', 'BUTTON', 'SUMMARY'];
+const kActivatedBySpace = ['BUTTON', 'SUMMARY'];
+const kButtonInputTypes = ['button', 'reset', 'submit', 'image'];
+
+function activate(element: Element, space: boolean): string | undefined {
+  const input =
+    element.nodeName === 'INPUT' ? (element as HTMLInputElement) : undefined;
+  const clickable = input
+    ? kButtonInputTypes.includes(input.type) ||
+      (space && ['checkbox', 'radio'].includes(input.type))
+    : (space ? kActivatedBySpace : kActivatedByEnter).includes(
+        element.nodeName
+      ) &&
+      (element.nodeName !== 'A' || element.hasAttribute('href'));
+  if (!clickable) {
+    if (input && !space) return implicitSubmit(input);
+    return;
+  }
+  if ((element as HTMLButtonElement).disabled)
+    return `none, ${describeElement(element)} is disabled`;
+  (element as HTMLElement).click();
+  if (input && ['checkbox', 'radio'].includes(input.type))
+    return `${input.checked ? 'checked' : 'unchecked'} ${describeElement(input)}`;
+  return `clicked ${describeElement(element)}`;
+}
+
+function moveFocus(from: Element | null, backwards: boolean): string {
+  const next = nextTabStop(from, backwards);
+  if (!next) {
+    (from as HTMLElement | null)?.blur?.();
+    return 'focus left the page, there are no more tab stops';
+  }
+  (next as HTMLElement).focus();
+  // Tabbing into a text field selects its content
+  asTextField(next)?.select();
+  return `moved focus to ${describeElement(next)}`;
+}
+
+function selectAll(target: Element): string {
+  const field = asTextField(target);
+  if (field) {
+    field.select();
+    return `selected all text in ${describeElement(field)}`;
+  }
+  const doc = target.ownerDocument;
+  const root = (target as HTMLElement).isContentEditable ? target : doc.body;
+  doc.getSelection()?.selectAllChildren(root);
+  return (target as HTMLElement).isContentEditable
+    ? `selected all text in ${describeElement(target)}`
+    : 'selected all text on the page';
+}
+
+/**
+ * The editing host an element belongs to: its outermost contenteditable ancestor
+ */
+export function editingHost(element: Element): HTMLElement | undefined {
+  if (!(element as HTMLElement).isContentEditable) return;
+  let host = element as HTMLElement;
+  while (host.parentElement?.isContentEditable) host = host.parentElement;
+  return host;
+}
+
+export type EditableInputType =
+  | 'insertText'
+  | 'insertParagraph'
+  | 'deleteContentBackward'
+  | 'deleteContentForward';
+
+// Blocks that Enter splits into two
+const kParagraphTags = [
+  'BLOCKQUOTE',
+  'DIV',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'LI',
+  'P',
+  'PRE',
+];
+
+/**
+ * The selection range inside the editing host, placing the caret at the end of the host
+ * when the selection is elsewhere
+ */
+function selectionRangeIn(host: HTMLElement): Range {
+  const doc = host.ownerDocument;
+  const selection = doc.getSelection();
+  if (selection?.rangeCount) {
+    const range = selection.getRangeAt(0);
+    if (host.contains(range.commonAncestorContainer)) return range;
+  }
+  const range = doc.createRange();
+  range.selectNodeContents(host);
+  range.collapse(false);
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+  return range;
+}
+
+function collapseSelectionTo(node: Node, offset: number) {
+  const doc = node.ownerDocument ?? document;
+  const range = doc.createRange();
+  range.setStart(node, offset);
+  range.collapse(true);
+  const selection = doc.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+}
+
+function insertTextAt(range: Range, text: string) {
+  range.deleteContents();
+  const container = range.startContainer;
+  // Extend the text node the caret is in, so the text stays in one node
+  if (container.nodeType === Node.TEXT_NODE) {
+    (container as Text).insertData(range.startOffset, text);
+    collapseSelectionTo(container, range.startOffset + text.length);
+    return;
+  }
+  const node = (container.ownerDocument ?? document).createTextNode(text);
+  range.insertNode(node);
+  collapseSelectionTo(node, text.length);
+}
+
+function insertParagraphAt(range: Range, host: HTMLElement) {
+  range.deleteContents();
+  let block: Element | null =
+    range.startContainer.nodeType === Node.ELEMENT_NODE
+      ? (range.startContainer as Element)
+      : range.startContainer.parentElement;
+  while (block && block !== host && !kParagraphTags.includes(block.nodeName))
+    block = block.parentElement;
+  const doc = host.ownerDocument;
+  const container = block && block !== host ? block : host;
+
+  // Move everything after the caret into a new block after the current one
+  const tail = range.cloneRange();
+  tail.setEnd(container, container.childNodes.length);
+  const moved = tail.extractContents();
+  const paragraph =
+    container === host
+      ? doc.createElement('div')
+      : (container.cloneNode(false) as Element);
+  paragraph.removeAttribute('id');
+  paragraph.appendChild(moved);
+  // Empty blocks collapse to zero height without a placeholder line break
+  if (!paragraph.textContent)
+    paragraph.replaceChildren(doc.createElement('br'));
+  if (container !== host && !container.textContent)
+    container.replaceChildren(doc.createElement('br'));
+  if (container === host) host.appendChild(paragraph);
+  else container.after(paragraph);
+  collapseSelectionTo(paragraph, 0);
+}
+
+function deleteAt(range: Range, backward: boolean): boolean {
+  if (range.collapsed) {
+    // Only characters inside a text node are deleted when nothing is selected
+    const container = range.startContainer;
+    if (container.nodeType !== Node.TEXT_NODE) return false;
+    const offset = range.startOffset + (backward ? -1 : 0);
+    if (offset < 0 || offset >= (container as Text).length) return false;
+    (container as Text).deleteData(offset, 1);
+    collapseSelectionTo(container, offset);
+    return true;
+  }
+  range.deleteContents();
+  collapseSelectionTo(range.startContainer, range.startOffset);
+  return true;
+}
+
+/**
+ * Edit the content of an editing host at its selection the way the browser does:
+ * beforeinput first, so editor frameworks (ProseMirror, Lexical, Slate) can apply the
+ * edit through their own pipeline by cancelling it; otherwise the DOM is edited, which
+ * editors that observe mutations pick up, and input fires.
+ * Returns whether the page handled the edit itself.
+ */
+export function editContent(
+  host: HTMLElement,
+  inputType: EditableInputType,
+  text = ''
+): 'handled' | 'applied' | 'nothing to delete' {
+  const win = windowOf(host);
+  const range = selectionRangeIn(host);
+  const data = inputType === 'insertText' ? text : null;
+  const init: InputEventInit & { targetRanges?: StaticRange[] } = {
+    inputType,
+    data,
+    bubbles: true,
+    composed: true,
+  };
+  if (win.StaticRange) init.targetRanges = [new win.StaticRange(range)];
+  if (
+    !host.dispatchEvent(
+      new win.InputEvent('beforeinput', { ...init, cancelable: true })
+    )
+  )
+    return 'handled';
+
+  switch (inputType) {
+    case 'insertText':
+      insertTextAt(range, text);
+      break;
+    case 'insertParagraph':
+      insertParagraphAt(range, host);
+      break;
+    default:
+      if (!deleteAt(range, inputType === 'deleteContentBackward'))
+        return 'nothing to delete';
+  }
+  host.dispatchEvent(new win.InputEvent('input', init));
+  return 'applied';
+}
+
+function editEditable(
+  host: HTMLElement,
+  key: KeyDescription
+): string | undefined {
+  let inputType: EditableInputType | undefined;
+  if (key.key === 'Enter') inputType = 'insertParagraph';
+  else if (key.key === 'Backspace') inputType = 'deleteContentBackward';
+  else if (key.key === 'Delete') inputType = 'deleteContentForward';
+  else if (key.text) inputType = 'insertText';
+  if (!inputType) return;
+
+  const result = editContent(host, inputType, key.text);
+  if (result === 'nothing to delete')
+    return `none, nothing to delete at the caret in ${describeElement(host)}`;
+  return result === 'handled'
+    ? `${inputType} in ${describeElement(host)}, handled by the page's beforeinput handler`
+    : `${inputType} in ${describeElement(host)}`;
+}
+
+function runDefaultAction(
+  target: Element,
+  key: KeyDescription,
+  modifiers: Set<KeyboardModifier>
+): string | undefined {
+  const accelerator = modifiers.has('Control') || modifiers.has('Meta');
+  if (accelerator && !modifiers.has('Alt')) {
+    if (key.code === 'KeyA') return selectAll(target);
+    return;
+  }
+  if (modifiers.has('Alt')) return;
+
+  if (key.key === 'Tab')
+    return moveFocus(
+      target === target.ownerDocument.body ? null : target,
+      modifiers.has('Shift')
+    );
+
+  const field = asTextField(target);
+  if (field) {
+    const edited = editTextField(field, key, modifiers.has('Shift'));
+    if (edited) return edited;
+  }
+  const host = editingHost(target);
+  if (host) return editEditable(host, key);
+  if (key.key === 'Enter') return activate(target, false);
+  if (key.key === ' ') return activate(target, true);
+}
+
+/**
+ * Press a key or chord on the target: keydown for each modifier and the key, keypress for
+ * keys that type a character, the default action unless a handler cancelled the key, then
+ * keyup in reverse order. Returns a description of the default action that ran, if any.
+ */
+export function pressKey(
+  target: Element | Document,
+  chord: string,
+  options: PressKeyOptions = {}
+): string | undefined {
+  const { modifiers, key } = parseChord(chord);
+  const pressed = new Set<KeyboardModifier>();
+  for (const modifier of modifiers) {
+    pressed.add(modifier);
+    dispatchKey(target, 'keydown', describeKey(modifier), pressed);
+  }
+
+  // Pressing a modifier on its own sets its own flag, as in browsers
+  if (kModifiers.includes(key.key as KeyboardModifier))
+    pressed.add(key.key as KeyboardModifier);
+  const effective = pressed.has('Shift')
+    ? (kShiftedDescriptions.get(key.code) ?? key)
+    : key;
+
+  let action: string | undefined;
+  let allowed = dispatchKey(target, 'keydown', effective, pressed);
+  if (
+    allowed &&
+    effective.text &&
+    !pressed.has('Control') &&
+    !pressed.has('Meta')
+  )
+    allowed = dispatchKey(target, 'keypress', effective, pressed);
+  if (!allowed) action = 'none, the key event was cancelled by the page';
+  else if (options.defaultActions && !('defaultView' in target))
+    action = runDefaultAction(target, effective, pressed);
+
+  // Key up goes to the element that has focus by then
+  const doc = 'defaultView' in target ? target : target.ownerDocument;
+  const upTarget = options.defaultActions
+    ? (deepActiveElement(doc) ?? target)
+    : target;
+  dispatchKey(upTarget, 'keyup', effective, pressed);
+  pressed.delete(key.key as KeyboardModifier);
+  for (const modifier of [...modifiers].reverse()) {
+    dispatchKey(upTarget, 'keyup', describeKey(modifier), pressed);
+    pressed.delete(modifier);
+  }
+  return action;
+}
@@ -0,0 +1,216 @@
+/**
+ * Live region announcement monitoring using event buffer.
+ * Approximates what a screen reader announces when aria-live, status, alert and log regions change.
+ */
+
+import { normalizeWhiteSpace } from '@isomorphic/stringUtils';
+import {
+  closestCrossShadow,
+  collectElements,
+  enclosingElement,
+} from './domUtils.js';
+import { type AnnouncementEvent, addEvent } from './eventBuffer.js';
+import * as roleUtils from './roleUtils.js';
+
+const LIVE_REGION_SELECTOR =
+  '[aria-live], [role~="status"], [role~="alert"], [role~="log"], output';
+
+// Regions that existed before the current mutation batch
+const knownRegions = new WeakSet<Element>();
+
+let observer: MutationObserver | null = null;
+
+// Mutations do not cross shadow boundaries, so every open shadow root is observed too
+let observedShadowRoots = new WeakSet<ShadowRoot>();
+let originalAttachShadow: typeof Element.prototype.attachShadow | null = null;
+
+const kObserveOptions: MutationObserverInit = {
+  childList: true,
+  characterData: true,
+  subtree: true,
+};
+
+// Text as rendered: shadow roots replace the children of their host, slots show
+// their assigned nodes
+function flatText(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return node.nodeValue || '';
+  let children: Node[] = Array.from(node.childNodes);
+  if (node.nodeType === Node.ELEMENT_NODE) {
+    const element = node as Element;
+    if (element.shadowRoot)
+      children = Array.from(element.shadowRoot.childNodes);
+    else if (element.localName === 'slot') {
+      const assigned = (element as HTMLSlotElement).assignedNodes();
+      if (assigned.length) children = assigned;
+    }
+  }
+  return children.map(flatText).join('');
+}
+
+function textOf(node: Node): string {
+  return normalizeWhiteSpace(flatText(node));
+}
+
+// Shadow roots, and text placed directly in them, belong to their host
+function shadowHost(node: Node | null): Element | undefined {
+  return node?.nodeType === Node.DOCUMENT_FRAGMENT_NODE
+    ? (node as ShadowRoot).host
+    : undefined;
+}
+
+function closestLiveRegion(node: Node | null): Element | null {
+  const element =
+    node &&
+    (enclosingElement(node) ?? shadowHost(node) ?? shadowHost(node.parentNode));
+  return closestCrossShadow(element || undefined, LIVE_REGION_SELECTOR) ?? null;
+}
+
+function getPoliteness(
+  region: Element
+): AnnouncementEvent['politeness'] | null {
+  const live = region.getAttribute('aria-live');
+  if (live === 'off') return null;
+  if (live === 'polite' || live === 'assertive') return live;
+  const role = roleUtils.getAriaRole(region);
+  if (role === 'alert') return 'assertive';
+  if (role === 'status' || role === 'log') return 'polite';
+  return null;
+}
+
+// status and alert are atomic unless aria-atomic says otherwise
+function isAtomic(region: Element): boolean {
+  const atomic = region.getAttribute('aria-atomic');
+  if (atomic) return atomic === 'true';
+  const role = roleUtils.getAriaRole(region);
+  return role === 'status' || role === 'alert';
+}
+
+function describeRegion(region: Element): AnnouncementEvent['region'] {
+  const name = normalizeWhiteSpace(
+    roleUtils.getElementAccessibleName(region, false)
+  );
+  return {
+    role: roleUtils.getAriaRole(region) ?? undefined,
+    name: name || undefined,
+    tagName: region.tagName,
+    id: region.id || undefined,
+    ariaRef: (region as any)._ariaRef?.ref,
+  };
+}
+
+function observeShadowRoot(shadowRoot: ShadowRoot): void {
+  if (!observer || observedShadowRoots.has(shadowRoot)) return;
+  observedShadowRoots.add(shadowRoot);
+  observer.observe(shadowRoot, kObserveOptions);
+}
+
+/**
+ * Remember the regions inside root, including open shadow roots, returning the ones
+ * not seen before. Shadow roots found on the way are observed from now on.
+ */
+function registerRegions(root: Document | Element): Element[] {
+  const elements = collectElements(root);
+  if ('matches' in root) {
+    elements.unshift(root);
+    if (root.shadowRoot) collectElements(root.shadowRoot, {}, elements);
+  }
+  for (const element of elements)
+    if (element.shadowRoot) observeShadowRoot(element.shadowRoot);
+  const regions = elements.filter((element) =>
+    element.matches(LIVE_REGION_SELECTOR)
+  );
+  const added = regions.filter((region) => !knownRegions.has(region));
+  for (const region of added) knownRegions.add(region);
+  return added;
+}
+
+function handleMutations(records: MutationRecord[]): void {
+  const changes = new Map<Element, string[]>();
+  const newRegions = new Set<Element>();
+  const queue = (region: Element, text: string) => {
+    const texts = changes.get(region) ?? [];
+    texts.push(text);
+    changes.set(region, texts);
+  };
+
+  for (const record of records) {
+    if (record.type === 'characterData') {
+      const region = closestLiveRegion(record.target);
+      if (region && !newRegions.has(region))
+        queue(region, textOf(record.target));
+      continue;
+    }
+
+    for (const node of record.addedNodes) {
+      if (node.nodeType === Node.ELEMENT_NODE) {
+        // Content inserted together with its region is not announced, except for alerts
+        for (const region of registerRegions(node as Element)) {
+          newRegions.add(region);
+          if (roleUtils.getAriaRole(region) === 'alert')
+            queue(region, textOf(region));
+        }
+      }
+      const region = closestLiveRegion(record.target);
+      if (region && !newRegions.has(region)) queue(region, textOf(node));
+    }
+  }
+
+  for (const [region, texts] of changes) {
+    if (!region.isConnected || roleUtils.isElementHiddenForAria(region))
+      continue;
+    const politeness = getPoliteness(region);
+    if (!politeness) continue;
+    const text = isAtomic(region)
+      ? textOf(region)
+      : normalizeWhiteSpace(texts.join(' '));
+    if (!text) continue;
+
+    const announcement: AnnouncementEvent = {
+      type: 'announcement',
+      text,
+      politeness,
+      region: describeRegion(region),
+      timestamp: Date.now(),
+      url: window.location.href,
+    };
+    addEvent(announcement);
+  }
+}
+
+/**
+ * Start recording live region announcements into the event buffer
+ */
+export function installLiveRegionMonitor(): void {
+  if (typeof MutationObserver === 'undefined' || observer) {
+    return;
+  }
+
+  observer = new MutationObserver(handleMutations);
+  observer.observe(document, kObserveOptions);
+
+  // Shadow roots attached to connected elements, e.g. when a custom element is
+  // upgraded, cause no mutation to discover them by
+  const attachShadow = Element.prototype.attachShadow;
+  originalAttachShadow = attachShadow;
+  Element.prototype.attachShadow = function (init: ShadowRootInit) {
+    const shadowRoot = attachShadow.call(this, init);
+    if (init.mode === 'open') observeShadowRoot(shadowRoot);
+    return shadowRoot;
+  };
+
+  // Regions present on load only announce later changes
+  registerRegions(document);
+}
+
+/**
+ * Stop recording live region announcements
+ */
+export function disconnectLiveRegionMonitor(): void {
+  observer?.disconnect();
+  observer = null;
+  if (originalAttachShadow) {
+    Element.prototype.attachShadow = originalAttachShadow;
+    originalAttachShadow = null;
+  }
+  observedShadowRoots = new WeakSet<ShadowRoot>();
+}
@@ -0,0 +1,575 @@
+/**
+ * Pointer input that behaves like a real user: elements are scrolled into view and checked
+ * for actionability the way Playwright does, then receive the full pointer and mouse event
+ * sequence at the point a user would click.
+ */
+
+import {
+  getElementComputedStyle,
+  isElementVisible,
+  isInsideScope,
+  parentElementOrShadowHost,
+} from './domUtils.js';
+import { describeElement } from './refRegistry.js';
+import * as roleUtils from './roleUtils.js';
+
+export type Point = { x: number; y: number };
+
+export type ActionabilityCheck =
+  | 'attached'
+  | 'visible'
+  | 'enabled'
+  | 'stable'
+  | 'receives events';
+
+export interface ActionabilityOptions {
+  // Milliseconds to wait for the element to become actionable
+  timeout?: number;
+  // Offset from the top-left corner of the element, defaults to its visible center
+  position?: Point;
+}
+
+export type MouseButton = 'left' | 'right' | 'middle';
+
+export type KeyboardModifier = 'Alt' | 'Control' | 'Meta' | 'Shift';
+
+export interface ClickOptions {
+  button?: MouseButton;
+  // 2 for a double click, 3 for a triple click
+  clickCount?: number;
+  // Modifier keys held during the click
+  modifiers?: KeyboardModifier[];
+}
+
+export interface DragOptions extends ActionabilityOptions {
+  // Number of pointer moves between the source and the drop point
+  steps?: number;
+}
+
+export interface DragResult {
+  // Element under the drop point
+  dropTarget: Element;
+  // How the HTML5 drag went: not started because nothing is draggable, cancelled in
+  // dragstart, rejected because no dragover was cancelled, or dropped
+  html5: 'not draggable' | 'cancelled' | 'rejected' | 'dropped';
+  // Drop effect reported to dragend
+  dropEffect: string;
+}
+
+export interface ActionTarget {
+  // Click point in the viewport of the element's own document
+  point: Point;
+  // Deepest element under the point: the element itself or one of its descendants
+  hitTarget: Element;
+}
+
+export const kDefaultActionTimeout = 5000;
+
+export const kDefaultDragSteps = 5;
+
+const kRetryInterval = 100;
+
+// MouseEvent.button values and MouseEvent.buttons bits
+const kButtonIndex: Record<MouseButton, number> = {
+  left: 0,
+  middle: 1,
+  right: 2,
+};
+const kButtonMask: Record<MouseButton, number> = {
+  left: 1,
+  right: 2,
+  middle: 4,
+};
+
+// Animation frames do not fire in background tabs, so fall back to a timer
+function nextFrame(win: Window): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = win.setTimeout(resolve, 50);
+    win.requestAnimationFrame?.(() => {
+      win.clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+function sameRect(a: DOMRect, b: DOMRect): boolean {
+  return (
+    a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height
+  );
+}
+
+/**
+ * Point to act on in the element's viewport, when it lies inside the viewport: the given
+ * offset from the top-left corner, or the center of the visible part of the first box
+ */
+function actionPoint(element: Element, position?: Point): Point | undefined {
+  const win = element.ownerDocument.defaultView ?? window;
+  if (position) {
+    const box = element.getBoundingClientRect();
+    const point = { x: box.left + position.x, y: box.top + position.y };
+    const inside =
+      point.x >= 0 &&
+      point.y >= 0 &&
+      point.x < win.innerWidth &&
+      point.y < win.innerHeight;
+    return inside ? point : undefined;
+  }
+  const rect = Array.from(element.getClientRects()).find(
+    (r) => r.width > 0 && r.height > 0
+  );
+  if (!rect) return;
+  const left = Math.max(rect.left, 0);
+  const top = Math.max(rect.top, 0);
+  const right = Math.min(rect.right, win.innerWidth);
+  const bottom = Math.min(rect.bottom, win.innerHeight);
+  if (right <= left || bottom <= top) return;
+  return { x: (left + right) / 2, y: (top + bottom) / 2 };
+}
+
+/**
+ * Deepest element at a point, descending into open shadow roots
+ */
+export function deepElementFromPoint(
+  doc: Document,
+  point: Point
+): Element | undefined {
+  let hit = doc.elementFromPoint(point.x, point.y) ?? undefined;
+  while (hit?.shadowRoot) {
+    const inner = hit.shadowRoot.elementFromPoint(point.x, point.y);
+    if (!inner || inner === hit) break;
+    hit = inner;
+  }
+  return hit;
+}
+
+/**
+ * Element at a point of the top-level viewport, descending into same-origin iframes.
+ * The returned point is in the viewport of the element's own document.
+ */
+export function elementFromViewportPoint(
+  point: Point
+): { element: Element; point: Point } | undefined {
+  let doc = document;
+  let local = point;
+  while (true) {
+    const hit = deepElementFromPoint(doc, local);
+    if (!hit) return;
+    let frameDocument: Document | null = null;
+    try {
+      frameDocument =
+        hit.nodeName === 'IFRAME'
+          ? (hit as HTMLIFrameElement).contentDocument
+          : null;
+    } catch {
+      // Cross-origin frames cannot be entered
+    }
+    if (!frameDocument) return { element: hit, point: local };
+    const rect = hit.getBoundingClientRect();
+    local = {
+      x: local.x - rect.left - hit.clientLeft,
+      y: local.y - rect.top - hit.clientTop,
+    };
+    doc = frameDocument;
+  }
+}
+
+function checkActionable(
+  element: Element,
+  position?: Point
+):
+  | { check: ActionabilityCheck; reason: string }
+  | { point: Point; hitTarget: Element } {
+  if (!isElementVisible(element))
+    return {
+      check: 'visible',
+      reason:
+        'element is not visible (zero size, display: none or visibility: hidden)',
+    };
+  if (roleUtils.getAriaDisabled(element))
+    return { check: 'enabled', reason: 'element is disabled' };
+
+  const point = actionPoint(element, position);
+  if (!point)
+    return {
+      check: 'visible',
+      reason: position
+        ? `position (${position.x}, ${position.y}) is outside of the viewport`
+        : 'element is outside of the viewport and could not be scrolled into view',
+    };
+  const hit = deepElementFromPoint(element.ownerDocument, point);
+  if (!hit || !isInsideScope(element, hit)) {
+    const at = `(${Math.round(point.x)}, ${Math.round(point.y)})`;
+    if (getElementComputedStyle(element)?.pointerEvents === 'none')
+      return {
+        check: 'receives events',
+        reason: `element has pointer-events: none, so ${hit ? describeElement(hit) : 'nothing'} would receive the click at ${at}`,
+      };
+    return {
+      check: 'receives events',
+      reason: hit
+        ? `${describeElement(hit)} intercepts pointer events at ${at}`
+        : `no element receives pointer events at ${at}`,
+    };
+  }
+  return { point, hitTarget: hit };
+}
+
+/**
+ * Scroll the element into view and wait until it is visible, enabled, stable and not
+ * obscured by another element. Throws an error naming the check that failed last.
+ */
+export async function waitForActionable(
+  element: Element,
+  options: ActionabilityOptions = {}
+): Promise<ActionTarget> {
+  const timeout = options.timeout ?? kDefaultActionTimeout;
+  const win = element.ownerDocument.defaultView ?? window;
+  const deadline = Date.now() + timeout;
+  let failure = { check: 'attached', reason: 'element is detached' };
+
+  while (true) {
+    if (!element.isConnected)
+      throw new Error(
+        'Element is not attached to the DOM; take a new snapshot to get a fresh ref'
+      );
+
+    if (isElementVisible(element) && !actionPoint(element, options.position))
+      element.scrollIntoView({ block: 'center', inline: 'center' });
+
+    // Stable means the same bounding box over two consecutive animation frames
+    const before = element.getBoundingClientRect();
+    await nextFrame(win);
+    const after = element.getBoundingClientRect();
+
+    const result = sameRect(before, after)
+      ? checkActionable(element, options.position)
+      : {
+          check: 'stable' as const,
+          reason: 'element is still moving or animating',
+        };
+    if ('point' in result) return result;
+    failure = result;
+
+    if (Date.now() >= deadline) break;
+    await new Promise((resolve) => win.setTimeout(resolve, kRetryInterval));
+  }
+
+  throw new Error(
+    `Element is not actionable after ${timeout}ms: "${failure.check}" check failed, ${failure.reason}`
+  );
+}
+
+function mouseEventInit(
+  win: Window,
+  point: Point,
+  modifiers: KeyboardModifier[],
+  init: MouseEventInit = {}
+): MouseEventInit {
+  return {
+    altKey: modifiers.includes('Alt'),
+    ctrlKey: modifiers.includes('Control'),
+    metaKey: modifiers.includes('Meta'),
+    shiftKey: modifiers.includes('Shift'),
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    view: win,
+    clientX: point.x,
+    clientY: point.y,
+    screenX: point.x + win.screenX,
+    screenY: point.y + win.screenY,
+    button: 0,
+    ...init,
+  };
+}
+
+function dispatchPointer(
+  target: Element,
+  type: string,
+  init: MouseEventInit
+): boolean {
+  const win = target.ownerDocument.defaultView ?? window;
+  const PointerEventClass = (win as any).PointerEvent ?? win.MouseEvent;
+  return target.dispatchEvent(
+    new PointerEventClass(type, {
+      pointerId: 1,
+      pointerType: 'mouse',
+      isPrimary: true,
+      ...init,
+    })
+  );
+}
+
+function dispatchMouse(
+  target: Element,
+  type: string,
+  init: MouseEventInit
+): boolean {
+  const win = target.ownerDocument.defaultView ?? window;
+  return target.dispatchEvent(new win.MouseEvent(type, init));
+}
+
+/**
+ * Move focus the way a mouse press does: to the closest focusable ancestor, or away
+ * from the current element when there is none
+ */
+function focusFromPointer(target: Element) {
+  for (
+    let current: Element | undefined = target;
+    current;
+    current = parentElementOrShadowHost(current)
+  ) {
+    if (
+      roleUtils.isFocusable(current) ||
+      (current as HTMLElement).isContentEditable
+    ) {
+      (current as HTMLElement).focus();
+      return;
+    }
+  }
+  (target.ownerDocument.activeElement as HTMLElement | null)?.blur?.();
+}
+
+/**
+ * Dispatch a wheel event in pixels. Returns false when the page cancelled it, in which
+ * case a browser would not scroll.
+ */
+export function dispatchWheel(
+  target: Element,
+  point: Point,
+  delta: { deltaX: number; deltaY: number }
+): boolean {
+  const win = target.ownerDocument.defaultView ?? window;
+  const init = mouseEventInit(win, point, [], { buttons: 0 });
+  if (!win.WheelEvent)
+    return target.dispatchEvent(new win.MouseEvent('wheel', init));
+  return target.dispatchEvent(
+    new win.WheelEvent('wheel', { ...init, ...delta, deltaMode: 0 })
+  );
+}
+
+/**
+ * Dispatch the events of the mouse moving onto the target:
+ * pointerover, pointerenter, mouseover, mouseenter, pointermove, mousemove
+ */
+export function dispatchHover(
+  target: Element,
+  point: Point,
+  modifiers: KeyboardModifier[] = []
+) {
+  const win = target.ownerDocument.defaultView ?? window;
+  const hover = mouseEventInit(win, point, modifiers, { buttons: 0 });
+  const enter = { ...hover, bubbles: false, cancelable: false };
+  dispatchPointer(target, 'pointerover', hover);
+  dispatchPointer(target, 'pointerenter', enter);
+  dispatchMouse(target, 'mouseover', hover);
+  dispatchMouse(target, 'mouseenter', enter);
+  dispatchPointer(target, 'pointermove', hover);
+  dispatchMouse(target, 'mousemove', hover);
+}
+
+/**
+ * Dispatch the events a real mouse click produces, in browser order: the hover events,
+ * then pointerdown, mousedown, focus, pointerup, mouseup and click for every click.
+ * Double clicks add dblclick; other buttons fire auxclick, and the right button fires
+ * contextmenu first.
+ */
+export function dispatchClick(
+  target: Element,
+  point: Point,
+  options: ClickOptions = {}
+) {
+  const { button = 'left', clickCount = 1, modifiers = [] } = options;
+  const win = target.ownerDocument.defaultView ?? window;
+  const buttonInit = { button: kButtonIndex[button] };
+
+  dispatchHover(target, point, modifiers);
+
+  for (let detail = 1; detail <= clickCount; detail++) {
+    const down = mouseEventInit(win, point, modifiers, {
+      ...buttonInit,
+      buttons: kButtonMask[button],
+    });
+    const up = mouseEventInit(win, point, modifiers, {
+      ...buttonInit,
+      buttons: 0,
+    });
+
+    // Cancelling pointerdown suppresses the compatibility mouse events, but not the click
+    const pointerDownAllowed = dispatchPointer(target, 'pointerdown', down);
+    const mouseDownAllowed =
+      pointerDownAllowed &&
+      dispatchMouse(target, 'mousedown', { ...down, detail });
+    if (detail === 1 && (mouseDownAllowed || !pointerDownAllowed))
+      focusFromPointer(target);
+
+    dispatchPointer(target, 'pointerup', up);
+    if (pointerDownAllowed) dispatchMouse(target, 'mouseup', { ...up, detail });
+
+    if (button === 'left') {
+      dispatchMouse(target, 'click', { ...up, detail });
+      if (detail === 2) dispatchMouse(target, 'dblclick', { ...up, detail });
+    } else {
+      if (button === 'right')
+        dispatchMouse(target, 'contextmenu', { ...up, detail });
+      dispatchMouse(target, 'auxclick', { ...up, detail });
+    }
+  }
+}
+
+/**
+ * Click an element like a user would, after waiting for it to be actionable
+ */
+export async function clickElement(
+  element: Element,
+  options: ActionabilityOptions & ClickOptions = {}
+): Promise<ActionTarget> {
+  const target = await waitForActionable(element, options);
+  dispatchClick(target.hitTarget, target.point, options);
+  return target;
+}
+
+/**
+ * Element that starts a native drag when pressed: draggable="true" elements, plus links
+ * and images, which are draggable by default
+ */
+function draggableAncestor(element: Element): HTMLElement | undefined {
+  for (
+    let current: Element | undefined = element;
+    current;
+    current = parentElementOrShadowHost(current)
+  ) {
+    if ((current as HTMLElement).draggable) return current as HTMLElement;
+  }
+}
+
+function dropEffectFor(effectAllowed: string): DataTransfer['dropEffect'] {
+  if (effectAllowed === 'none') return 'none';
+  if (/^(all|uninitialized|move|copyMove|linkMove)$/.test(effectAllowed))
+    return 'move';
+  return effectAllowed.startsWith('copy') ? 'copy' : 'link';
+}
+
+function dispatchDragEvent(
+  target: Element,
+  type: string,
+  init: MouseEventInit,
+  dataTransfer: DataTransfer
+): boolean {
+  const win = target.ownerDocument.defaultView ?? window;
+  const DragEventClass = (win as any).DragEvent;
+  if (DragEventClass)
+    return target.dispatchEvent(
+      new DragEventClass(type, { ...init, dataTransfer })
+    );
+  const event = new win.MouseEvent(type, init);
+  Object.defineProperty(event, 'dataTransfer', { value: dataTransfer });
+  return target.dispatchEvent(event);
+}
+
+/**
+ * Drag the source element to a point, driving both kinds of drag and drop libraries:
+ *
+ * - pointer based ones (dnd-kit, sortable lists) get pointerdown/mousedown on the source,
+ *   pointermove/mousemove at every step and pointerup/mouseup at the drop point
+ * - HTML5 ones (react-dnd, file drop zones) get dragstart, drag, dragenter, dragleave,
+ *   dragover, drop and dragend sharing one DataTransfer, when the source is draggable
+ */
+export function dispatchDrag(
+  source: ActionTarget,
+  to: Point,
+  options: DragOptions = {}
+): DragResult {
+  const steps = Math.max(1, options.steps ?? kDefaultDragSteps);
+  const doc = source.hitTarget.ownerDocument;
+  const win = doc.defaultView ?? window;
+  const from = source.point;
+  const pressed = { buttons: kButtonMask.left };
+  const elementAt = (point: Point) =>
+    deepElementFromPoint(doc, point) ?? doc.documentElement;
+
+  dispatchHover(source.hitTarget, from);
+  const down = mouseEventInit(win, from, [], pressed);
+  if (dispatchPointer(source.hitTarget, 'pointerdown', down)) {
+    if (dispatchMouse(source.hitTarget, 'mousedown', { ...down, detail: 1 }))
+      focusFromPointer(source.hitTarget);
+  }
+
+  const draggable = draggableAncestor(source.hitTarget);
+  const dataTransfer = new ((win as any).DataTransfer ?? DataTransfer)();
+  let html5: DragResult['html5'] = draggable ? 'rejected' : 'not draggable';
+  let dropTarget: Element | undefined;
+  let canDrop = false;
+  let current = source.hitTarget;
+
+  for (let step = 1; step <= steps; step++) {
+    const point = {
+      x: from.x + ((to.x - from.x) * step) / steps,
+      y: from.y + ((to.y - from.y) * step) / steps,
+    };
+    current = elementAt(point);
+    const move = mouseEventInit(win, point, [], pressed);
+    dispatchPointer(current, 'pointermove', move);
+    dispatchMouse(current, 'mousemove', move);
+
+    if (!draggable || html5 === 'cancelled') continue;
+    // Browsers start the native drag once the pointer moved away from the press point
+    if (
+      step === 1 &&
+      !dispatchDragEvent(draggable, 'dragstart', move, dataTransfer)
+    ) {
+      html5 = 'cancelled';
+      continue;
+    }
+    dispatchDragEvent(draggable, 'drag', move, dataTransfer);
+    if (current !== dropTarget) {
+      dispatchDragEvent(current, 'dragenter', move, dataTransfer);
+      if (dropTarget)
+        dispatchDragEvent(dropTarget, 'dragleave', move, dataTransfer);
+      dropTarget = current;
+    }
+    dataTransfer.dropEffect = dropEffectFor(dataTransfer.effectAllowed);
+    // Drop targets accept the drop by cancelling dragover
+    canDrop = !dispatchDragEvent(dropTarget, 'dragover', move, dataTransfer);
+  }
+
+  const up = mouseEventInit(win, to, [], { buttons: 0 });
+  if (draggable && html5 !== 'cancelled') {
+    if (canDrop && dropTarget) {
+      dataTransfer.dropEffect = dropEffectFor(dataTransfer.effectAllowed);
+      dispatchDragEvent(dropTarget, 'drop', up, dataTransfer);
+      html5 = 'dropped';
+    } else {
+      if (dropTarget)
+        dispatchDragEvent(dropTarget, 'dragleave', up, dataTransfer);
+      dataTransfer.dropEffect = 'none';
+    }
+    dispatchDragEvent(draggable, 'dragend', up, dataTransfer);
+  }
+  dispatchPointer(current, 'pointerup', up);
+  dispatchMouse(current, 'mouseup', { ...up, detail: 1 });
+
+  return {
+    dropTarget: current,
+    html5,
+    dropEffect: html5 === 'dropped' ? dataTransfer.dropEffect : 'none',
+  };
+}
+
+/**
+ * Drag an element onto another element or to a point in the viewport of the source's
+ * document, after waiting for the source, and a target element, to be actionable
+ */
+export async function dragElement(
+  source: Element,
+  to: Element | Point,
+  options: DragOptions = {}
+): Promise<DragResult> {
+  const from = await waitForActionable(source, { timeout: options.timeout });
+  if (!('nodeType' in to)) return dispatchDrag(from, to, options);
+
+  const target = await waitForActionable(to, options);
+  // Scrolling the target into view may have moved the source
+  from.point = actionPoint(source) ?? from.point;
+  return dispatchDrag(from, target.point, options);
+}
@@ -0,0 +1,187 @@
+/**
+ * Registry of ref fingerprints so that refs survive re-mounts.
+ * When the element a ref was assigned to is removed (e.g. React remounted its subtree),
+ * the ref can be re-bound to the element that matches the same fingerprint.
+ */
+
+import { normalizeWhiteSpace } from '@isomorphic/stringUtils';
+import { collectElements, parentElementOrShadowHost } from './domUtils';
+import { extractReactInfo } from './reactUtils';
+import * as roleUtils from './roleUtils';
+import { getLandmarkRole } from './tools/getElementInfo';
+
+export interface RefFingerprint {
+  role: string;
+  name: string;
+  landmarks: string[]; // e.g. ['main', 'form "Contact"']
+  debugSource?: string; // e.g. "App.tsx:42:8"
+}
+
+export type RefResolution = 'exact' | 'rebound';
+
+export interface ResolvedRef {
+  element: Element;
+  resolution: RefResolution;
+}
+
+// Oldest fingerprints are dropped first once the limit is reached
+const MAX_FINGERPRINTS = 5000;
+
+const fingerprints = new Map<string, RefFingerprint>();
+
+// Ref -> element index filled from every snapshot, so that resolving a ref does not
+// walk the DOM. Weak references keep removed elements collectable.
+const refIndex = new Map<string, WeakRef<Element>>();
+const refIndexCleanup = new FinalizationRegistry<string>((ref) => {
+  if (!refIndex.get(ref)?.deref()) refIndex.delete(ref);
+});
+
+function indexRef(ref: string, element: Element): void {
+  if (refIndex.get(ref)?.deref() === element) return;
+  refIndex.set(ref, new WeakRef(element));
+  refIndexCleanup.register(element, ref);
+}
+
+/**
+ * Index the ref -> element map of a freshly generated snapshot
+ */
+export function indexRefs(elements: Map<string, Element>): void {
+  for (const [ref, element] of elements) indexRef(ref, element);
+}
+
+/**
+ * Look up the element a ref was assigned to in O(1).
+ * Entries are invalidated once their element is collected or gets a different ref;
+ * while it is disconnected (e.g. a list item being moved) the lookup returns null.
+ */
+export function lookupRef(ref: string): Element | null {
+  const element = refIndex.get(ref)?.deref();
+  if (!element || (element as any)._ariaRef?.ref !== ref) {
+    refIndex.delete(ref);
+    return null;
+  }
+  return element.isConnected ? element : null;
+}
+
+/**
+ * Path of landmark ancestors from the outermost to the innermost one
+ */
+export function getLandmarkPath(element: Element): string[] {
+  const path: string[] = [];
+  for (
+    let ancestor = parentElementOrShadowHost(element);
+    ancestor;
+    ancestor = parentElementOrShadowHost(ancestor)
+  ) {
+    const role = getLandmarkRole(ancestor);
+    if (!role) continue;
+    const name = normalizeWhiteSpace(
+      roleUtils.getElementAccessibleName(ancestor, false)
+    );
+    path.unshift(name ? `${role} ${JSON.stringify(name)}` : role);
+  }
+  return path;
+}
+
+/**
+ * Role, accessible name and ref of an element, for tool output
+ */
+export function describeElement(element: Element): string {
+  const role = roleUtils.getAriaRole(element) ?? element.localName;
+  const name = normalizeWhiteSpace(
+    roleUtils.getElementAccessibleName(element, false)
+  );
+  const description = name ? `${role} ${JSON.stringify(name)}` : role;
+  const ref = (element as any)._ariaRef?.ref;
+  if (ref) return `${description} [ref=${ref}]`;
+  return `${description} <${element.localName}${element.id ? `#${element.id}` : ''}>`;
+}
+
+/**
+ * Remember the fingerprint of the element a ref was assigned to
+ */
+export function registerRef(
+  ref: string,
+  element: Element,
+  role: string,
+  name: string,
+  debugSource?: string
+): void {
+  fingerprints.delete(ref);
+  fingerprints.set(ref, {
+    role,
+    name,
+    landmarks: getLandmarkPath(element),
+    debugSource,
+  });
+  if (fingerprints.size > MAX_FINGERPRINTS) {
+    const oldest = fingerprints.keys().next().value;
+    if (oldest !== undefined) fingerprints.delete(oldest);
+  }
+}
+
+function matchesFingerprint(
+  element: Element,
+  fingerprint: RefFingerprint
+): boolean {
+  if (roleUtils.getAriaRole(element) !== fingerprint.role) return false;
+  const name = normalizeWhiteSpace(
+    roleUtils.getElementAccessibleName(element, false)
+  );
+  if (name !== fingerprint.name) return false;
+  if (
+    getLandmarkPath(element).join(' > ') !== fingerprint.landmarks.join(' > ')
+  )
+    return false;
+  if (
+    fingerprint.debugSource &&
+    extractReactInfo(element)?.debugSource !== fingerprint.debugSource
+  )
+    return false;
+  return true;
+}
+
+/**
+ * Re-bind a ref whose element is gone to the element matching its fingerprint.
+ * Returns null when there is no fingerprint, the match is ambiguous or the match
+ * already holds a ref of a later snapshot.
+ */
+export function rebindRef(
+  ref: string,
+  root: Document = document
+): Element | null {
+  const fingerprint = fingerprints.get(ref);
+  if (!fingerprint) return null;
+
+  roleUtils.beginAriaCaches();
+  let candidates: Element[];
+  try {
+    candidates = collectElements(root, { includeFrames: true }).filter(
+      (element) => matchesFingerprint(element, fingerprint)
+    );
+  } finally {
+    roleUtils.endAriaCaches();
+  }
+
+  // Elements another live ref points to are taken: re-binding them would break that ref.
+  const available = candidates.filter((element) => {
+    const current = (element as any)._ariaRef?.ref;
+    return !current || refIndex.get(current)?.deref() !== element;
+  });
+  // Freshly mounted elements have no ref yet; prefer them over elements with a stale ref.
+  const unreferenced = available.filter(
+    (element) => !(element as any)._ariaRef
+  );
+  let match: Element | undefined;
+  if (unreferenced.length === 1) match = unreferenced[0];
+  else if (available.length === 1) match = available[0];
+  if (!match) return null;
+
+  (match as any)._ariaRef = {
+    role: fingerprint.role,
+    name: fingerprint.name,
+    ref,
+  };
+  indexRef(ref, match);
+  return match;
+}
@@ -87,7 +87,7 @@ function hasTabIndex(element: Element) {
   return !Number.isNaN(Number(String(element.getAttribute('tabindex'))));
 }
 
-function isFocusable(element: Element) {
+export function isFocusable(element: Element) {
   // TODO:
   // - "inert" attribute makes the whole substree not focusable
   // - when dialog is open on the page - everything but the dialog is not focusable
@@ -671,9 +671,15 @@ function allowsNameFromContent(role: string, targetDescendant: boolean) {
 
 export function getElementAccessibleName(
   element: Element,
-  includeHidden: boolean
+  includeHidden: boolean,
+  onTextAlternative?: TextAlternativeHook
 ): string {
-  const cache = includeHidden ? cacheAccessibleNameHidden : cacheAccessibleName;
+  // A traced computation bypasses the cache so that every step is reported
+  const cache = onTextAlternative
+    ? undefined
+    : includeHidden
+      ? cacheAccessibleNameHidden
+      : cacheAccessibleName;
   let accessibleName = cache?.get(element);
 
   if (accessibleName === undefined) {
@@ -708,6 +714,7 @@ export function getElementAccessibleName(
           includeHidden,
           visitedElements: new Set(),
           embeddedInTargetElement: 'self',
+          onTextAlternative,
         })
       );
     }
@@ -768,7 +775,7 @@ export function getElementAccessibleDescription(
   return accessibleDescription;
 }
 
-function getAriaInvalid(
+export function getAriaInvalid(
   element: Element
 ): 'false' | 'true' | 'grammar' | 'spelling' {
   // https://www.w3.org/TR/wai-aria-1.2/#aria-invalid
@@ -841,11 +848,34 @@ type AccessibleNameOptions = {
   embeddedInLabel?: { element: Element; hidden: boolean };
   embeddedInNativeTextAlternative?: { element: Element; hidden: boolean };
   embeddedInTargetElement?: 'self' | 'descendant';
+  onTextAlternative?: TextAlternativeHook;
 };
 
+/**
+ * Observes the accessible name computation. Called for every element the
+ * computation visits; `compute` returns the element's text alternative and visits
+ * its contributing elements in turn.
+ */
+export type TextAlternativeHook = (
+  element: Element,
+  compute: () => string
+) => string;
+
 function getTextAlternativeInternal(
   element: Element,
   options: AccessibleNameOptions
+): string {
+  if (options.onTextAlternative && !options.visitedElements.has(element)) {
+    return options.onTextAlternative(element, () =>
+      getTextAlternativeUntraced(element, options)
+    );
+  }
+  return getTextAlternativeUntraced(element, options);
+}
+
+function getTextAlternativeUntraced(
+  element: Element,
+  options: AccessibleNameOptions
 ): string {
   if (options.visitedElements.has(element)) return '';
 
@@ -0,0 +1,253 @@
+/**
+ * In-page history of recently generated aria trees.
+ * Lets the agent ask "what changed since snapshot s3?" without re-uploading the baseline.
+ */
+
+import type {
+  AriaNode,
+  AriaSnapshot,
+  AriaTreeFrontier,
+  AriaTreeOptions,
+} from './ariaSnapshot';
+
+export interface StoredSnapshot {
+  id: string;
+  snapshot: AriaSnapshot;
+  // Options the tree was generated and rendered with
+  options: AriaTreeOptions;
+  timestamp: number;
+  // Unrendered remainders of truncated pages, keyed by cursor (e.g. "s3:1")
+  cursors: Map<string, AriaTreeFrontier>;
+}
+
+export interface AriaNodeSummary {
+  ref?: string;
+  role: string;
+  name: string;
+}
+
+export interface AriaStateChange {
+  state: DiffedState;
+  from: AriaNode[DiffedState];
+  to: AriaNode[DiffedState];
+}
+
+export interface AriaSnapshotDiff {
+  baselineId: string;
+  snapshotId: string;
+  added: AriaNodeSummary[];
+  removed: AriaNodeSummary[];
+  renamed: (AriaNodeSummary & { previousName: string; previousRef?: string })[];
+  changed: (AriaNodeSummary & { changes: AriaStateChange[] })[];
+}
+
+type DiffedState = 'checked' | 'disabled' | 'expanded' | 'pressed' | 'selected';
+
+const kDiffedStates: DiffedState[] = [
+  'checked',
+  'disabled',
+  'expanded',
+  'pressed',
+  'selected',
+];
+
+// Keep only the last few trees: every entry pins its DOM elements in memory.
+const MAX_STORED_SNAPSHOTS = 10;
+
+const storedSnapshots: StoredSnapshot[] = [];
+let lastSnapshotId = 0;
+
+/**
+ * Store a generated aria tree and return its snapshot id (e.g. "s3")
+ */
+export function recordSnapshot(
+  snapshot: AriaSnapshot,
+  options: AriaTreeOptions
+): string {
+  const id = `s${++lastSnapshotId}`;
+  storedSnapshots.push({
+    id,
+    snapshot,
+    options,
+    timestamp: Date.now(),
+    cursors: new Map(),
+  });
+  if (storedSnapshots.length > MAX_STORED_SNAPSHOTS) storedSnapshots.shift();
+  return id;
+}
+
+/**
+ * Look up a stored snapshot by id
+ */
+export function getStoredSnapshot(id: string): StoredSnapshot | undefined {
+  return storedSnapshots.find((entry) => entry.id === id);
+}
+
+/**
+ * Id of the most recently recorded snapshot, if any
+ */
+export function getLastSnapshotId(): string | undefined {
+  return storedSnapshots[storedSnapshots.length - 1]?.id;
+}
+
+/**
+ * Remember where a truncated page of a stored snapshot stopped and return a cursor
+ * (e.g. "s3:1") to continue from there
+ */
+export function recordSnapshotCursor(
+  snapshotId: string,
+  frontier: AriaTreeFrontier
+): string {
+  const stored = getStoredSnapshot(snapshotId);
+  if (!stored) throw new Error(`Snapshot "${snapshotId}" not found.`);
+  const cursor = `${snapshotId}:${stored.cursors.size + 1}`;
+  stored.cursors.set(cursor, frontier);
+  return cursor;
+}
+
+/**
+ * Look up the stored snapshot and frontier a cursor continues from
+ */
+export function getSnapshotCursor(
+  cursor: string
+): { snapshot: StoredSnapshot; frontier: AriaTreeFrontier } | undefined {
+  const snapshot = getStoredSnapshot(cursor.split(':')[0]);
+  const frontier = snapshot?.cursors.get(cursor);
+  return snapshot && frontier ? { snapshot, frontier } : undefined;
+}
+
+/**
+ * Forget all stored snapshots
+ */
+export function clearSnapshotHistory(): void {
+  storedSnapshots.length = 0;
+}
+
+function collectNodes(root: AriaNode): Map<Element, AriaNode> {
+  const nodes = new Map<Element, AriaNode>();
+  const visit = (node: AriaNode) => {
+    if (node.role !== 'fragment') nodes.set(node.element, node);
+    for (const child of node.children) {
+      if (typeof child !== 'string') visit(child);
+    }
+  };
+  visit(root);
+  return nodes;
+}
+
+function summarize(node: AriaNode): AriaNodeSummary {
+  return { ref: node.ref, role: node.role, name: node.name };
+}
+
+/**
+ * Compare two aria trees. Nodes are matched by their DOM element, so a node whose
+ * accessible name changed (and therefore got a new ref) is reported as renamed.
+ */
+export function diffAriaSnapshots(
+  baseline: StoredSnapshot,
+  current: StoredSnapshot
+): AriaSnapshotDiff {
+  const before = collectNodes(baseline.snapshot.root);
+  const after = collectNodes(current.snapshot.root);
+
+  const diff: AriaSnapshotDiff = {
+    baselineId: baseline.id,
+    snapshotId: current.id,
+    added: [],
+    removed: [],
+    renamed: [],
+    changed: [],
+  };
+
+  for (const [element, node] of before) {
+    const next = after.get(element);
+    if (!next || next.role !== node.role) diff.removed.push(summarize(node));
+  }
+
+  for (const [element, node] of after) {
+    const previous = before.get(element);
+    if (!previous || previous.role !== node.role) {
+      diff.added.push(summarize(node));
+      continue;
+    }
+
+    if (previous.name !== node.name) {
+      diff.renamed.push({
+        ...summarize(node),
+        previousName: previous.name,
+        previousRef: previous.ref !== node.ref ? previous.ref : undefined,
+      });
+    }
+
+    const changes: AriaStateChange[] = [];
+    for (const state of kDiffedStates) {
+      if (previous[state] !== node[state])
+        changes.push({ state, from: previous[state], to: node[state] });
+    }
+    if (changes.length) diff.changed.push({ ...summarize(node), changes });
+  }
+
+  return diff;
+}
+
+function renderSummary(node: AriaNodeSummary): string {
+  let line = node.role;
+  if (node.name) line += ` ${JSON.stringify(node.name)}`;
+  if (node.ref) line += ` [ref=${node.ref}]`;
+  return line;
+}
+
+function renderStateValue(value: AriaNode[DiffedState]): string {
+  return value === undefined ? 'unset' : String(value);
+}
+
+/**
+ * Render a diff as compact text suitable for returning to an agent
+ */
+export function renderAriaSnapshotDiff(diff: AriaSnapshotDiff): string {
+  const lines: string[] = [
+    `Changes since snapshot ${diff.baselineId} (current snapshot: ${diff.snapshotId}):`,
+  ];
+
+  if (
+    !diff.added.length &&
+    !diff.removed.length &&
+    !diff.renamed.length &&
+    !diff.changed.length
+  ) {
+    lines.push('No changes');
+    return lines.join('\n');
+  }
+
+  if (diff.added.length) {
+    lines.push('added:');
+    for (const node of diff.added) lines.push(`  - ${renderSummary(node)}`);
+  }
+  if (diff.removed.length) {
+    lines.push('removed:');
+    for (const node of diff.removed) lines.push(`  - ${renderSummary(node)}`);
+  }
+  if (diff.renamed.length) {
+    lines.push('renamed:');
+    for (const node of diff.renamed) {
+      const was = node.previousRef ? ` (was ${node.previousRef})` : '';
+      lines.push(
+        `  - ${renderSummary({ ...node, name: node.previousName })} -> ${JSON.stringify(node.name)}${was}`
+      );
+    }
+  }
+  if (diff.changed.length) {
+    lines.push('changed:');
+    for (const node of diff.changed) {
+      const changes = node.changes
+        .map(
+          (change) =>
+            `${change.state}: ${renderStateValue(change.from)} -> ${renderStateValue(change.to)}`
+        )
+        .join(', ');
+      lines.push(`  - ${renderSummary(node)} ${changes}`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -1,13 +1,96 @@
+import { normalizeWhiteSpace } from '@isomorphic/stringUtils';
 import { z } from 'zod';
+import { type AriaNode, generateAriaTree } from '../ariaSnapshot.js';
+import {
+  type ClickOptions,
+  clickElement,
+  dispatchClick,
+  elementFromViewportPoint,
+  kDefaultActionTimeout,
+} from '../pointerActions.js';
+import { describeElement } from '../refRegistry.js';
 import type { ToolHandler } from './base.js';
-import { baseToolSchema, ensureA11yCap } from './common.js';
+import {
+  describeRefResolution,
+  multiElementToolSchema,
+  resolveRefOrThrow,
+  resolveSingleTargetElement,
+} from './common.js';
 
 // Core tool schema without sessionId (which is added by MCP server for routing)
-const clickElementSchema = baseToolSchema;
+export const clickElementSchema = multiElementToolSchema
+  .omit({ boundingBox: true })
+  .extend({
+    // Support legacy single ref for backward compatibility
+    ref: z
+      .string()
+      .optional()
+      .describe(
+        'Element reference from snapshot (e.g., "e5") - legacy, use refs instead'
+      ),
+    role: z
+      .string()
+      .optional()
+      .describe(
+        'ARIA role of the element to click (e.g., "button"), combined with name'
+      ),
+    name: z
+      .string()
+      .optional()
+      .describe(
+        'Accessible name of the element to click with role; exact matches win over case-insensitive substring matches'
+      ),
+    coordinates: z
+      .object({ x: z.number(), y: z.number() })
+      .optional()
+      .describe(
+        'Viewport coordinates to click at, skipping the actionability checks'
+      ),
+    button: z
+      .enum(['left', 'right', 'middle'])
+      .optional()
+      .default('left')
+      .describe('Mouse button (default: left)'),
+    clickCount: z
+      .number()
+      .int()
+      .min(1)
+      .max(3)
+      .optional()
+      .default(1)
+      .describe('2 for a double click, 3 for a triple click (default: 1)'),
+    modifiers: z
+      .array(z.enum(['Alt', 'Control', 'Meta', 'Shift']))
+      .optional()
+      .describe('Modifier keys held during the click'),
+    position: z
+      .object({ x: z.number(), y: z.number() })
+      .optional()
+      .describe(
+        "Offset from the element's top-left corner to click at (default: center of the element)"
+      ),
+    timeout: z
+      .number()
+      .optional()
+      .default(kDefaultActionTimeout)
+      .describe(
+        `Milliseconds to wait for the element to become actionable (default: ${kDefaultActionTimeout})`
+      ),
+  });
+
+// Targeting and actionability fields; the click options are passed separately
+export type ClickPayload = Omit<
+  z.infer<typeof clickElementSchema>,
+  'button' | 'clickCount' | 'modifiers'
+>;
 
 export const clickElementDefinition = {
   name: 'click_element',
-  description: 'Click an element using its accessibility snapshot reference',
+  description: `Click an element the way a real user would. Target it with 'refs' (or the legacy 'ref'), a 'selector', a 'role' plus accessible 'name', or viewport 'coordinates'.
+
+The element is scrolled into view, then the tool waits until it is visible, enabled, stable (not animating) and not covered by another element at the click point. It then receives the full pointerover, pointerdown, mousedown, focus, pointerup, mouseup and click sequence, so components that react to pointerdown or mousedown work too. If a check still fails after the timeout, the error names it (e.g. "enabled" check failed, element is disabled).
+
+Use 'clickCount' for double and triple clicks, 'modifiers' for Shift/Control/Alt/Meta clicks and 'position' to click at an offset within the element. Clicking at 'coordinates' hits whatever is there without waiting. For context menus, use right_click.`,
   inputSchema: clickElementSchema.shape, // Will have sessionId added by MCP server
 };
 
@@ -19,16 +102,140 @@ const ClickElementMessageSchema = z.object({
 
 type ClickElementMessage = z.infer<typeof ClickElementMessageSchema>;
 
-async function executeClickElement(message: ClickElementMessage): Promise<any> {
-  const a11y = ensureA11yCap();
-  const success = a11y.clickRef(message.payload.ref);
-  if (!success) {
+type ClickTarget = {
+  element: Element;
+  // Human-readable target for results and errors
+  description: string;
+  // Set when clicking at viewport coordinates
+  point?: { x: number; y: number };
+};
+
+function findByRoleAndName(role: string, name?: string): Element {
+  const tree = generateAriaTree(document.body, { mode: 'ai' });
+  const candidates: AriaNode[] = [];
+  const visit = (node: AriaNode) => {
+    if (node.role === role) candidates.push(node);
+    for (const child of node.children)
+      if (typeof child !== 'string') visit(child);
+  };
+  visit(tree.root);
+
+  let matches = candidates;
+  if (name !== undefined) {
+    const wanted = normalizeWhiteSpace(name);
+    matches = candidates.filter((node) => node.name === wanted);
+    if (!matches.length)
+      matches = candidates.filter((node) =>
+        node.name.toLowerCase().includes(wanted.toLowerCase())
+      );
+  }
+
+  const target = name === undefined ? role : `${role} "${name}"`;
+  if (!matches.length) throw new Error(`No ${target} found on the page`);
+  if (matches.length > 1) {
+    const listed = matches
+      .slice(0, 5)
+      .map((node) => describeElement(node.element))
+      .join(', ');
+    const more = matches.length > 5 ? `, and ${matches.length - 5} more` : '';
     throw new Error(
-      `Failed to click element with ref "${message.payload.ref}"`
+      `Multiple elements match ${target} (${matches.length}): ${listed}${more}. Use a more specific name or a ref.`
     );
   }
+  return matches[0].element;
+}
+
+/**
+ * Resolve the one element a click payload targets
+ */
+export function resolveClickTarget(payload: ClickPayload): ClickTarget {
+  const { ref, refs, selector, role, name, coordinates, position } = payload;
+  const methods = [
+    ref !== undefined,
+    !!refs?.length,
+    selector !== undefined,
+    role !== undefined,
+    coordinates !== undefined,
+  ].filter(Boolean).length;
+  if (name !== undefined && role === undefined)
+    throw new Error('"name" can only be used together with "role"');
+  if (position !== undefined && coordinates !== undefined)
+    throw new Error('"position" cannot be used together with "coordinates"');
+  if (methods !== 1)
+    throw new Error(
+      'Specify exactly one of ref, refs, selector, role (with name) or coordinates'
+    );
+  if (refs && refs.length > 1)
+    throw new Error(
+      `Multiple refs given (${refs.length}), but this tool only works with a single element`
+    );
 
-  return `Successfully clicked element with ref "${message.payload.ref}"`;
+  const targetRef = ref ?? refs?.[0];
+  if (targetRef !== undefined) {
+    const resolved = resolveRefOrThrow(targetRef);
+    return {
+      element: resolved.element,
+      description: `element with ref "${targetRef}"${describeRefResolution(targetRef, resolved)}`,
+    };
+  }
+  if (selector !== undefined) {
+    return {
+      element: resolveSingleTargetElement({ selector }),
+      description: `element matching "${selector}"`,
+    };
+  }
+  if (role !== undefined) {
+    const element = findByRoleAndName(role, name);
+    const ref = (element as any)._ariaRef?.ref;
+    return {
+      element,
+      description: `${role}${name !== undefined ? ` "${name}"` : ''}${ref ? ` [ref=${ref}]` : ''}`,
+    };
+  }
+
+  const hit = coordinates && elementFromViewportPoint(coordinates);
+  if (!coordinates || !hit)
+    throw new Error(
+      `No element at point (${coordinates?.x}, ${coordinates?.y}); coordinates are relative to the viewport`
+    );
+  const tag = `<${hit.element.localName}${hit.element.id ? `#${hit.element.id}` : ''}>`;
+  return {
+    element: hit.element,
+    description: `point (${coordinates.x}, ${coordinates.y}) on ${tag}`,
+    point: hit.point,
+  };
+}
+
+/**
+ * Click the target of a click payload; shared by click_element and right_click
+ */
+export async function performClick(
+  payload: ClickPayload,
+  verb: string,
+  options: ClickOptions
+): Promise<string> {
+  const target = resolveClickTarget(payload);
+  const { timeout = kDefaultActionTimeout, position } = payload;
+  try {
+    if (target.point) dispatchClick(target.element, target.point, options);
+    else await clickElement(target.element, { ...options, timeout, position });
+  } catch (error) {
+    throw new Error(
+      `Failed to ${verb} ${target.description}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  return target.description;
+}
+
+async function executeClickElement(message: ClickElementMessage): Promise<any> {
+  const { button = 'left', clickCount = 1, modifiers } = message.payload;
+  const description = await performClick(message.payload, 'click', {
+    button,
+    clickCount,
+    modifiers,
+  });
+  const kind = clickCount === 2 ? 'double-' : clickCount === 3 ? 'triple-' : '';
+  return `Successfully ${kind}clicked ${description}`;
 }
 
 export const clickElementTool: ToolHandler<ClickElementMessage> = {
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { querySelectorAllDeep } from '../deepSelector.js';
+import type { ResolvedRef } from '../refRegistry.js';
 
 // Standardized element targeting schema that all tools should use
 export const elementTargetingSchema = z.object({
@@ -18,7 +20,7 @@ export const elementTargetingSchema = z.object({
     .string()
     .optional()
     .describe(
-      'CSS selector to target multiple elements (e.g., ".button", "div[data-test]")'
+      'CSS selector to target multiple elements (e.g., ".button", "div[data-test]"). Use ">>>" to pierce shadow roots (e.g., "app-dialog >>> button.primary")'
     ),
   boundingBox: z
     .object({
@@ -64,13 +66,28 @@ export function ensureA11yCap(): any {
   return window.A11yCap;
 }
 
-export function getElementByRefOrThrow(ref: string): Element {
+export function resolveRefOrThrow(ref: string): ResolvedRef {
   const a11y = ensureA11yCap();
-  const element = a11y.findElementByRef(ref);
-  if (!element) {
+  const resolved = a11y.resolveElementByRef(ref);
+  if (!resolved) {
     throw new Error(`Element with ref "${ref}" not found`);
   }
-  return element;
+  return resolved;
+}
+
+export function getElementByRefOrThrow(ref: string): Element {
+  return resolveRefOrThrow(ref).element;
+}
+
+/**
+ * Note to append to tool results when a ref had to be re-bound by fingerprint
+ */
+export function describeRefResolution(
+  ref: string,
+  resolved: ResolvedRef
+): string {
+  if (resolved.resolution === 'exact') return '';
+  return ` (ref "${ref}" was re-bound heuristically: the original element was removed, so the element with the same role, name and landmarks was used)`;
 }
 
 // Type for element targeting options
@@ -106,9 +123,7 @@ export function resolveTargetElements(
   // Handle CSS selector
   if (options.selector) {
     try {
-      const selectedElements = Array.from(
-        document.querySelectorAll(options.selector)
-      );
+      const selectedElements = querySelectorAllDeep(options.selector);
       elements.push(...selectedElements);
     } catch (error) {
       throw new Error(
@@ -168,7 +183,13 @@ export function ensureInstanceOf<T extends Element>(
   allowed: Array<new (...args: any[]) => T>,
   errorMessage: string
 ): T {
-  const ok = allowed.some((Cls) => element instanceof Cls);
+  // Elements inside iframes are instances of the frame window's classes
+  const view = element.ownerDocument?.defaultView as any;
+  const ok = allowed.some(
+    (Cls) =>
+      element instanceof Cls ||
+      (view?.[Cls.name] && element instanceof view[Cls.name])
+  );
   if (!ok) {
     throw new Error(errorMessage);
   }
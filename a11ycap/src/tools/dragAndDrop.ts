@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import {
+  type DragResult,
+  dragElement,
+  kDefaultActionTimeout,
+  kDefaultDragSteps,
+} from '../pointerActions.js';
+import { describeElement } from '../refRegistry.js';
+import type { ToolHandler } from './base.js';
+import {
+  baseToolSchema,
+  describeRefResolution,
+  resolveRefOrThrow,
+} from './common.js';
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const dragAndDropSchema = baseToolSchema.extend({
+  ref: z.string().describe('Reference of the element to drag (e.g., "e5")'),
+  targetRef: z
+    .string()
+    .optional()
+    .describe('Reference of the element to drop onto (e.g., "e9")'),
+  targetCoordinates: z
+    .object({ x: z.number(), y: z.number() })
+    .optional()
+    .describe('Viewport coordinates to drop at, instead of targetRef'),
+  targetPosition: z
+    .object({ x: z.number(), y: z.number() })
+    .optional()
+    .describe(
+      "Offset from the target element's top-left corner to drop at (default: center of the element)"
+    ),
+  steps: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .default(kDefaultDragSteps)
+    .describe(
+      `Number of intermediate pointer moves between source and target (default: ${kDefaultDragSteps})`
+    ),
+  timeout: z
+    .number()
+    .optional()
+    .default(kDefaultActionTimeout)
+    .describe(
+      `Milliseconds to wait for the elements to become actionable (default: ${kDefaultActionTimeout})`
+    ),
+});
+
+export const dragAndDropDefinition = {
+  name: 'drag_and_drop',
+  description: `Drag an element onto another element ('targetRef') or to viewport coordinates ('targetCoordinates').
+
+Drives both kinds of drag and drop libraries: pointer based ones such as dnd-kit and sortable lists get pointerdown on the source, 'steps' pointermove/mousemove events along the way and pointerup at the drop point. When the source is draggable, HTML5 ones such as react-dnd and file drop zones also get dragstart, drag, dragenter, dragover, drop and dragend sharing one DataTransfer. The result reports whether the HTML5 drop was accepted.`,
+  inputSchema: dragAndDropSchema.shape, // Will have sessionId added by MCP server
+};
+
+const DragAndDropMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('drag_and_drop'),
+  payload: dragAndDropSchema, // Same schema as the core tool
+});
+
+type DragAndDropMessage = z.infer<typeof DragAndDropMessageSchema>;
+
+function describeHtml5(result: DragResult): string {
+  switch (result.html5) {
+    case 'not draggable':
+      return 'not started, the source is not draggable';
+    case 'cancelled':
+      return 'cancelled by the dragstart handler';
+    case 'rejected':
+      return 'no drop target accepted the drop (dragover was not cancelled)';
+    case 'dropped':
+      return `dropped on ${describeElement(result.dropTarget)} (dropEffect: ${result.dropEffect})`;
+  }
+}
+
+async function executeDragAndDrop(message: DragAndDropMessage): Promise<any> {
+  const {
+    ref,
+    targetRef,
+    targetCoordinates,
+    targetPosition,
+    steps = kDefaultDragSteps,
+    timeout = kDefaultActionTimeout,
+  } = message.payload;
+  if (!targetRef === !targetCoordinates)
+    throw new Error('Specify exactly one of targetRef or targetCoordinates');
+
+  const source = resolveRefOrThrow(ref);
+  const target = targetRef ? resolveRefOrThrow(targetRef) : undefined;
+  const destination = target
+    ? `element with ref "${targetRef}"`
+    : `point (${targetCoordinates?.x}, ${targetCoordinates?.y})`;
+
+  let result: DragResult;
+  try {
+    result = await dragElement(
+      source.element,
+      target?.element ?? targetCoordinates!,
+      { steps, timeout, position: targetPosition }
+    );
+  } catch (error) {
+    throw new Error(
+      `Failed to drag element with ref "${ref}" to ${destination}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return [
+    `Successfully dragged element with ref "${ref}" to ${destination}${describeRefResolution(ref, source)}${target && targetRef ? describeRefResolution(targetRef, target) : ''}`,
+    `Pointer drag: ${steps} moves, released over ${describeElement(result.dropTarget)}`,
+    `HTML5 drag: ${describeHtml5(result)}`,
+  ].join('\n');
+}
+
+export const dragAndDropTool: ToolHandler<DragAndDropMessage> = {
+  definition: dragAndDropDefinition,
+  messageSchema: DragAndDropMessageSchema,
+  execute: executeDragAndDrop,
+};
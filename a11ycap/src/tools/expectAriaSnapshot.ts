@@ -0,0 +1,104 @@
+import { parseAriaSnapshot } from '@isomorphic/ariaSnapshot';
+import * as yaml from 'yaml';
+import { z } from 'zod';
+import {
+  explainExpectAriaTemplateMismatch,
+  matchesExpectAriaTemplate,
+} from '../ariaSnapshot.js';
+import type { ToolHandler } from './base.js';
+import {
+  elementTargetingSchema,
+  resolveSingleTargetElement,
+} from './common.js';
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const expectAriaSnapshotSchema = elementTargetingSchema
+  .omit({ boundingBox: true })
+  .extend({
+    expected: z
+      .string()
+      .describe(
+        'Expected aria snapshot as a Playwright-style YAML template, with one `- role "name"` entry per line nested by indentation'
+      ),
+  });
+
+export const expectAriaSnapshotDefinition = {
+  name: 'expect_aria_snapshot',
+  description: `Assert that the accessibility tree matches a Playwright-style aria snapshot template, the same way expect(locator).toMatchAriaSnapshot() does in Playwright tests.
+
+Scope the assertion with 'refs' (a single ref) or 'selector' (must match a single element); defaults to the whole page.
+
+Template syntax:
+\`\`\`
+- heading "Billing" [level=2]
+- button /Save \\d+ changes/
+- list:
+  - listitem: "Item 1"
+- checkbox "Remember me" [checked]
+\`\`\`
+Names in /slashes/ are regular expressions. Templates match partially: only the listed nodes and attributes are checked, in order.
+
+Returns PASS, or FAIL with the template entries that could not be found and the actual snapshot of the scope.`,
+  inputSchema: expectAriaSnapshotSchema.shape, // Will have sessionId added by MCP server
+};
+
+const ExpectAriaSnapshotMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('expect_aria_snapshot'),
+  payload: expectAriaSnapshotSchema, // Same schema as the core tool
+});
+
+type ExpectAriaSnapshotMessage = z.infer<
+  typeof ExpectAriaSnapshotMessageSchema
+>;
+
+async function executeExpectAriaSnapshot(
+  message: ExpectAriaSnapshotMessage
+): Promise<any> {
+  const { expected, refs, selector } = message.payload;
+
+  const parsed = parseAriaSnapshot(yaml, expected);
+  if (parsed.errors.length) {
+    const error = parsed.errors[0];
+    const [start] = error.range;
+    throw new Error(
+      `Invalid aria snapshot template at line ${start.line}, column ${start.col}: ${error.message}`
+    );
+  }
+
+  const element =
+    refs?.length || selector
+      ? resolveSingleTargetElement({ refs, selector })
+      : document.body;
+
+  const { matches, received } = matchesExpectAriaTemplate(
+    element,
+    parsed.fragment
+  );
+
+  if (matches.length > 0) {
+    return 'PASS: Accessibility tree matches the expected aria snapshot';
+  }
+
+  const mismatches = explainExpectAriaTemplateMismatch(
+    element,
+    parsed.fragment
+  );
+
+  return `FAIL: Accessibility tree does not match the expected aria snapshot
+
+Mismatches:
+${mismatches.join('\n')}
+
+Expected:
+${expected.trim()}
+
+Received:
+${received.raw}`;
+}
+
+export const expectAriaSnapshotTool: ToolHandler<ExpectAriaSnapshotMessage> = {
+  definition: expectAriaSnapshotDefinition,
+  messageSchema: ExpectAriaSnapshotMessageSchema,
+  execute: executeExpectAriaSnapshot,
+};
@@ -0,0 +1,317 @@
+import { normalizeWhiteSpace } from '@isomorphic/stringUtils';
+import { z } from 'zod';
+import { generateAriaTree } from '../ariaSnapshot.js';
+import { isElementStyleVisibilityVisible } from '../domUtils.js';
+import * as roleUtils from '../roleUtils.js';
+import type { ToolHandler } from './base.js';
+import {
+  baseToolSchema,
+  describeRefResolution,
+  resolveRefOrThrow,
+} from './common.js';
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const explainAccessibleNameSchema = baseToolSchema.omit({
+  captureSnapshot: true,
+});
+
+export const explainAccessibleNameDefinition = {
+  name: 'explain_accessible_name',
+  description: `Explain where the accessible name of an element comes from, following the W3C accname algorithm step by step.
+
+Use it when a snapshot shows an empty or unexpected name (e.g. button ""). The result names the rule that produced the name and lists the nodes that were visited, with refs, nested by how they contributed:
+\`\`\`
+Accessible name: "Email address"
+Source: associated <label> element
+
+Derivation:
+- textbox [ref=e5]: associated <label> element → "Email address"
+  - <label#email-label>: text content → "Email address"
+    - generic <span>: skipped, hidden (aria-hidden="true")
+\`\`\`
+Rules are checked in order: aria-labelledby, aria-label, native labels (label element, alt, caption, legend), text content, title, placeholder.`,
+  inputSchema: explainAccessibleNameSchema.shape, // Will have sessionId added by MCP server
+};
+
+const ExplainAccessibleNameMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('explain_accessible_name'),
+  payload: explainAccessibleNameSchema, // Same schema as the core tool
+});
+
+type ExplainAccessibleNameMessage = z.infer<
+  typeof ExplainAccessibleNameMessageSchema
+>;
+
+/**
+ * Where the text alternative of a node came from
+ */
+type NameRule =
+  | 'prohibited'
+  | 'hidden'
+  | 'aria-labelledby'
+  | 'embedded control'
+  | 'aria-label'
+  | 'label'
+  | 'value'
+  | 'alt'
+  | 'caption'
+  | 'summary'
+  | 'content'
+  | 'title'
+  | 'placeholder'
+  | 'default'
+  | 'none';
+
+type NameStep = {
+  element: Element;
+  // Nesting level in the computation, 0 for the element being named
+  depth: number;
+  rule: NameRule;
+  text: string;
+  children: NameStep[];
+};
+
+const kRuleDescriptions: Record<NameRule, string> = {
+  prohibited: 'role does not support naming',
+  hidden: 'skipped, hidden',
+  'aria-labelledby': 'aria-labelledby',
+  'embedded control': 'value of embedded control',
+  'aria-label': 'aria-label',
+  label: 'associated <label> element',
+  value: 'value attribute',
+  alt: 'alt attribute',
+  caption: 'caption element (legend, figcaption, caption or svg title)',
+  summary: 'summary attribute',
+  content: 'text content',
+  title: 'title attribute',
+  placeholder: 'placeholder attribute',
+  default: 'browser default text',
+  none: 'no text alternative',
+};
+
+// Roles whose value is used when they are embedded in a label (accname step 2c)
+const kEmbeddedControlRoles = [
+  'combobox',
+  'listbox',
+  'menu',
+  'meter',
+  'progressbar',
+  'scrollbar',
+  'slider',
+  'spinbutton',
+  'textbox',
+];
+
+// Elements that name their parent: fieldset legend, figcaption, table caption, svg title
+const kCaptionTags = ['CAPTION', 'FIGCAPTION', 'LEGEND', 'TITLE'];
+
+/**
+ * Work out which rule produced the text of a step, checking the rules in the order
+ * the accname algorithm applies them
+ */
+function classifyStep(step: NameStep): NameRule {
+  const { element, text, children } = step;
+  const flatText = normalizeWhiteSpace(text);
+  const visited = (candidates: Element[]) =>
+    children.some((child) => candidates.includes(child.element));
+  const isAttribute = (name: string) => text === element.getAttribute(name);
+
+  if (!flatText) {
+    return !children.length && roleUtils.isElementHiddenForAria(element)
+      ? 'hidden'
+      : 'none';
+  }
+  if (visited(roleUtils.getAriaLabelledByElements(element) ?? []))
+    return 'aria-labelledby';
+  if (
+    step.depth > 0 &&
+    kEmbeddedControlRoles.includes(roleUtils.getAriaRole(element) ?? '')
+  )
+    return 'embedded control';
+  if (element.getAttribute('aria-label')?.trim()) return 'aria-label';
+  if (visited(Array.from((element as HTMLInputElement).labels ?? [])))
+    return 'label';
+
+  const [caption] = children;
+  if (
+    children.length === 1 &&
+    caption.element.parentElement === element &&
+    kCaptionTags.includes(caption.element.nodeName.toUpperCase())
+  )
+    return 'caption';
+
+  const input =
+    element.nodeName === 'INPUT' ? (element as HTMLInputElement) : null;
+  if (
+    input &&
+    ['button', 'submit', 'reset'].includes(input.type) &&
+    isAttribute('value')
+  )
+    return 'value';
+  if (isAttribute('alt')) return 'alt';
+  if (element.nodeName === 'TABLE' && isAttribute('summary')) return 'summary';
+  // Content comes before the title, except for native elements like <img title>
+  if (
+    (isAttribute('title') || isAttribute('xlink:title')) &&
+    flatText !== normalizeWhiteSpace(element.textContent || '')
+  )
+    return 'title';
+  if (isAttribute('placeholder')) return 'placeholder';
+  // "Submit", "Reset" and "Choose File"
+  if (input && !children.length) return 'default';
+  return 'content';
+}
+
+/**
+ * Compute the accessible name, recording every element the computation visits in
+ * visiting order
+ */
+function traceAccessibleName(element: Element): {
+  name: string;
+  steps: NameStep[];
+} {
+  const steps: NameStep[] = [];
+  const stack: NameStep[] = [];
+  const name = roleUtils.getElementAccessibleName(
+    element,
+    false,
+    (visited, compute) => {
+      const step: NameStep = {
+        element: visited,
+        depth: stack.length,
+        rule: 'none',
+        text: '',
+        children: [],
+      };
+      stack[stack.length - 1]?.children.push(step);
+      steps.push(step);
+      stack.push(step);
+      try {
+        step.text = compute();
+      } finally {
+        stack.pop();
+      }
+      step.rule = classifyStep(step);
+      return step.text;
+    }
+  );
+
+  // Step 1 of the algorithm stops before visiting anything when the role prohibits naming
+  if (!steps.length) {
+    steps.push({
+      element,
+      depth: 0,
+      rule: 'prohibited',
+      text: '',
+      children: [],
+    });
+  }
+  return { name, steps };
+}
+
+// Role and ref only: the text each step contributes follows on the same line, so
+// the accessible name is left out
+function describeStepElement(element: Element): string {
+  const role = roleUtils.getAriaRole(element);
+  const ref = (element as any)._ariaRef?.ref;
+  const node = ref
+    ? `[ref=${ref}]`
+    : `<${element.localName}${element.id ? `#${element.id}` : ''}>`;
+  return role ? `${role} ${node}` : node;
+}
+
+function describeHiddenReason(element: Element): string {
+  if (element.closest('[aria-hidden="true"]')) return 'aria-hidden="true"';
+  if (element.closest('[inert]')) return 'inert';
+  if (!isElementStyleVisibilityVisible(element))
+    return 'display: none or visibility: hidden';
+  return 'hidden from assistive technology';
+}
+
+function renderStep(step: NameStep): string {
+  const indent = '  '.repeat(step.depth);
+  if (step.rule === 'hidden') {
+    return `${indent}- ${describeStepElement(step.element)}: skipped, hidden (${describeHiddenReason(step.element)})`;
+  }
+  const text = normalizeWhiteSpace(step.text);
+  return `${indent}- ${describeStepElement(step.element)}: ${kRuleDescriptions[step.rule]} → ${JSON.stringify(text)}`;
+}
+
+function missingLabelledByIds(element: Element): string[] {
+  const root = element.getRootNode() as Document | ShadowRoot;
+  return (element.getAttribute('aria-labelledby') || '')
+    .split(' ')
+    .filter((id) => !!id && !root.getElementById(id));
+}
+
+function explainEmptyName(element: Element, rule: string): string {
+  if (rule === 'prohibited') {
+    return `The ${roleUtils.getAriaRole(element)} role cannot be named; aria-label and aria-labelledby are ignored. Use an element with a nameable role instead.`;
+  }
+  return 'No rule produced a name. Add visible text content, a <label>, aria-label or aria-labelledby.';
+}
+
+async function executeExplainAccessibleName(
+  message: ExplainAccessibleNameMessage
+): Promise<any> {
+  const resolved = resolveRefOrThrow(message.payload.ref);
+  const element = resolved.element;
+
+  // Assign refs to the nodes that contribute to the name
+  generateAriaTree(element.ownerDocument.body ?? document.body, {
+    mode: 'ai',
+  });
+
+  roleUtils.beginAriaCaches();
+  let lines: string[];
+  try {
+    const { name, steps } = traceAccessibleName(element);
+    const rule = steps[0]?.rule ?? 'none';
+    const accessibleName = normalizeWhiteSpace(name);
+
+    // Elements like <script> and <style> never contribute, so they are not worth listing
+    const visible = steps.filter(
+      (step, index) =>
+        index === 0 ||
+        (step.rule === 'hidden'
+          ? !roleUtils.isElementIgnoredForAria(step.element)
+          : step.depth <= 1 || !!normalizeWhiteSpace(step.text))
+    );
+
+    lines = [
+      `Accessible name: ${JSON.stringify(accessibleName)}${describeRefResolution(message.payload.ref, resolved)}`,
+      `Source: ${kRuleDescriptions[rule]}`,
+      '',
+      'Derivation:',
+      ...visible.map(renderStep),
+    ];
+
+    const skipped = visible.filter((step) => step.rule === 'hidden').length;
+    if (skipped) {
+      lines.push(
+        '',
+        `${skipped} hidden ${skipped === 1 ? 'node was' : 'nodes were'} skipped; hidden content only counts when referenced directly by aria-labelledby or a label.`
+      );
+    }
+    const missingIds = missingLabelledByIds(element);
+    if (missingIds.length) {
+      lines.push(
+        '',
+        `aria-labelledby references ${missingIds.map((id) => `"${id}"`).join(', ')}, which ${missingIds.length === 1 ? 'does' : 'do'} not exist in this document or shadow root.`
+      );
+    }
+    if (!accessibleName) lines.push('', explainEmptyName(element, rule));
+  } finally {
+    roleUtils.endAriaCaches();
+  }
+
+  return lines.join('\n');
+}
+
+export const explainAccessibleNameTool: ToolHandler<ExplainAccessibleNameMessage> =
+  {
+    definition: explainAccessibleNameDefinition,
+    messageSchema: ExplainAccessibleNameMessageSchema,
+    execute: executeExplainAccessibleName,
+  };
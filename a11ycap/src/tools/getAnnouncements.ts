@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { type AnnouncementEvent, getEvents } from '../eventBuffer.js';
+import type { ToolHandler } from './base.js';
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const getAnnouncementsSchema = z.object({
+  politeness: z
+    .enum(['polite', 'assertive'])
+    .optional()
+    .describe('Filter by politeness of the live region'),
+  since: z
+    .number()
+    .optional()
+    .describe(
+      'Get announcements since this timestamp (milliseconds since epoch)'
+    ),
+  limit: z
+    .number()
+    .optional()
+    .default(100)
+    .describe('Maximum number of announcements to return (default: 100)'),
+});
+
+export const getAnnouncementsDefinition = {
+  name: 'get_announcements',
+  description: `Retrieve what a screen reader would have announced from live regions (aria-live, role="status", role="alert", role="log").
+
+Use it after an interaction to verify that feedback such as "Saved successfully" or a form error was actually announced. Each entry lists the politeness (POLITE or ASSERTIVE), the announced text and the region it came from.
+
+Content inserted together with its live region is not announced (except for role="alert"), just like in real screen readers: if an expected message is missing, the region probably has to exist before its content changes.
+
+The most recent 200 announcements are kept, separately from interactions and console logs.`,
+  inputSchema: getAnnouncementsSchema.shape, // Will have sessionId added by MCP server
+};
+
+const GetAnnouncementsMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('get_announcements'),
+  payload: getAnnouncementsSchema,
+});
+
+type GetAnnouncementsMessage = z.infer<typeof GetAnnouncementsMessageSchema>;
+
+function describeRegion(region: AnnouncementEvent['region']): string {
+  let description = region.role ?? region.tagName.toLowerCase();
+  if (region.name) description += ` ${JSON.stringify(region.name)}`;
+  if (region.ariaRef) description += ` [ref=${region.ariaRef}]`;
+  else if (region.id) description += ` #${region.id}`;
+  return description;
+}
+
+export const getAnnouncementsTool: ToolHandler = {
+  definition: getAnnouncementsDefinition,
+  messageSchema: GetAnnouncementsMessageSchema,
+  execute: async (message: GetAnnouncementsMessage) => {
+    const { politeness, since, limit } = message.payload;
+
+    // Filter by politeness before applying the limit
+    const announcements = getEvents({ type: 'announcement', since })
+      .map((eventStr) => {
+        try {
+          return JSON.parse(eventStr) as AnnouncementEvent;
+        } catch {
+          return null;
+        }
+      })
+      .filter(
+        (event): event is AnnouncementEvent =>
+          !!event && (!politeness || event.politeness === politeness)
+      )
+      .slice(-limit);
+
+    if (announcements.length === 0) {
+      return 'No announcements found';
+    }
+
+    const formatted = announcements.map((event) => {
+      const timestamp = new Date(event.timestamp).toISOString();
+      const level = event.politeness.toUpperCase().padEnd(9);
+      return `[${timestamp}] ${level} ${JSON.stringify(event.text)} (${describeRegion(event.region)})`;
+    });
+
+    return `Announcements (${announcements.length} entries):\n\n${formatted.join('\n')}`;
+  },
+};
@@ -0,0 +1,250 @@
+import { z } from 'zod';
+import { generateAriaTree } from '../ariaSnapshot.js';
+import { collectElements, isInsideScope } from '../domUtils.js';
+import { describeElement } from '../refRegistry.js';
+import * as roleUtils from '../roleUtils.js';
+import type { ToolHandler } from './base.js';
+import { elementTargetingSchema, resolveTargetElements } from './common.js';
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const getAriaRelationshipsSchema = elementTargetingSchema.omit({
+  boundingBox: true,
+});
+
+export const getAriaRelationshipsDefinition = {
+  name: 'get_aria_relationships',
+  description: `Resolve the id references between elements into a graph with refs on both ends: aria-labelledby, aria-describedby, aria-controls, aria-owns, aria-activedescendant, aria-details, aria-errormessage and <label for>.
+
+\`\`\`
+combobox "City" [ref=e3]
+  aria-controls → listbox "Cities" [ref=e7] (hidden)
+  aria-activedescendant → "city-option-9" (no such id)
+\`\`\`
+
+Reports dangling ids, duplicate ids (the first element wins, which is often the wrong one) and relationships pointing to hidden elements. Scope with 'refs' or 'selector' to only see relationships from or to those elements; defaults to the whole page, including open shadow roots.`,
+  inputSchema: getAriaRelationshipsSchema.shape, // Will have sessionId added by MCP server
+};
+
+const GetAriaRelationshipsMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('get_aria_relationships'),
+  payload: getAriaRelationshipsSchema, // Same schema as the core tool
+});
+
+type GetAriaRelationshipsMessage = z.infer<
+  typeof GetAriaRelationshipsMessageSchema
+>;
+
+const kRelationshipAttributes = [
+  'aria-labelledby',
+  'aria-describedby',
+  'aria-controls',
+  'aria-owns',
+  'aria-activedescendant',
+  'aria-details',
+  'aria-errormessage',
+];
+
+// Relationships that legitimately point to hidden content
+const kHiddenTargetNotes: Record<string, string> = {
+  'aria-labelledby': 'allowed: hidden text still contributes to the name',
+  'aria-describedby':
+    'allowed: hidden text still contributes to the description',
+  'aria-details': 'allowed when the details are revealed on demand',
+};
+
+const kLabelableTags = [
+  'BUTTON',
+  'INPUT',
+  'METER',
+  'OUTPUT',
+  'PROGRESS',
+  'SELECT',
+  'TEXTAREA',
+];
+
+type Relationship = {
+  source: Element;
+  // ARIA attribute name, or "for" for <label for>
+  attribute: string;
+  id: string;
+  // First element with the id in the source's tree, as browsers resolve it
+  target?: Element;
+  // Number of elements sharing the id
+  matches: number;
+};
+
+function resolveId(
+  source: Element,
+  attribute: string,
+  id: string
+): Relationship {
+  const root = source.getRootNode() as Document | ShadowRoot;
+  const matches = id ? root.querySelectorAll(`#${CSS.escape(id)}`) : [];
+  return {
+    source,
+    attribute,
+    id,
+    target: matches[0],
+    matches: matches.length,
+  };
+}
+
+function collectRelationships(elements: Element[]): Relationship[] {
+  const relationships: Relationship[] = [];
+  for (const element of elements) {
+    for (const attribute of kRelationshipAttributes) {
+      const value = element.getAttribute(attribute);
+      if (!value) continue;
+      // aria-activedescendant and aria-errormessage take a single id
+      const ids = ['aria-activedescendant', 'aria-errormessage'].includes(
+        attribute
+      )
+        ? [value.trim()]
+        : value.split(/\s+/).filter((id) => !!id);
+      for (const id of ids)
+        relationships.push(resolveId(element, attribute, id));
+    }
+    if (element.nodeName === 'LABEL' && element.hasAttribute('for')) {
+      relationships.push(
+        resolveId(element, 'for', element.getAttribute('for') || '')
+      );
+    }
+  }
+  return relationships;
+}
+
+function describeTarget(relationship: Relationship): string {
+  if (!relationship.target)
+    return `${JSON.stringify(relationship.id)} (no such id)`;
+  const notes: string[] = [];
+  if (relationship.matches > 1)
+    notes.push(`first of ${relationship.matches} elements with this id`);
+  if (roleUtils.isElementHiddenForAria(relationship.target))
+    notes.push('hidden');
+  const suffix = notes.length ? ` (${notes.join(', ')})` : '';
+  return `${describeElement(relationship.target)}${suffix}`;
+}
+
+function findIssues(relationships: Relationship[]): string[] {
+  const issues: string[] = [];
+  for (const relationship of relationships) {
+    const source = `${describeElement(relationship.source)} ${relationship.attribute}="${relationship.id}"`;
+    const target = relationship.target;
+    if (!target) {
+      issues.push(`- Dangling id: ${source} matches no element`);
+      continue;
+    }
+    if (relationship.matches > 1) {
+      issues.push(
+        `- Duplicate id: ${source} matches ${relationship.matches} elements; only the first one is used: ${describeElement(target)}`
+      );
+    }
+    if (relationship.source === target) {
+      issues.push(`- Self reference: ${source} points to itself`);
+    }
+    if (
+      relationship.attribute === 'for' &&
+      !kLabelableTags.includes(target.nodeName)
+    ) {
+      issues.push(
+        `- Not labelable: ${source} points to ${describeElement(target)}, which a <label> cannot label`
+      );
+    }
+  }
+  return issues;
+}
+
+function findHiddenTargets(relationships: Relationship[]): string[] {
+  const hidden: string[] = [];
+  for (const { source, attribute, id, target } of relationships) {
+    if (!target || !roleUtils.isElementHiddenForAria(target)) continue;
+    let note = kHiddenTargetNotes[attribute];
+    if (
+      attribute === 'aria-controls' &&
+      source.getAttribute('aria-expanded') === 'false'
+    )
+      note = 'expected while collapsed';
+    hidden.push(
+      `- ${describeElement(source)} ${attribute}="${id}" points to ${describeElement(target)}${note ? ` (${note})` : ''}`
+    );
+  }
+  return hidden;
+}
+
+async function executeGetAriaRelationships(
+  message: GetAriaRelationshipsMessage
+): Promise<any> {
+  const { refs, selector } = message.payload;
+  const scopes =
+    refs?.length || selector ? resolveTargetElements({ refs, selector }) : [];
+
+  // Assign refs to both ends of every relationship
+  generateAriaTree(document.body, { mode: 'ai' });
+
+  roleUtils.beginAriaCaches();
+  let lines: string[];
+  try {
+    const relationships = collectRelationships(
+      collectElements(document)
+    ).filter(
+      (relationship) =>
+        !scopes.length ||
+        scopes.some(
+          (scope) =>
+            isInsideScope(scope, relationship.source) ||
+            isInsideScope(scope, relationship.target)
+        )
+    );
+
+    if (!relationships.length) {
+      return scopes.length
+        ? 'No ARIA relationships found from or to the selected elements'
+        : 'No ARIA relationships found';
+    }
+
+    const bySource = new Map<Element, Relationship[]>();
+    for (const relationship of relationships) {
+      bySource.set(relationship.source, [
+        ...(bySource.get(relationship.source) ?? []),
+        relationship,
+      ]);
+    }
+
+    lines = [`ARIA relationships (${relationships.length}):`, ''];
+    for (const [source, outgoing] of bySource) {
+      lines.push(describeElement(source));
+      for (const relationship of outgoing) {
+        lines.push(
+          `  ${relationship.attribute} → ${describeTarget(relationship)}`
+        );
+      }
+    }
+
+    const issues = findIssues(relationships);
+    lines.push(
+      '',
+      issues.length
+        ? `Issues (${issues.length}):\n${issues.join('\n')}`
+        : 'No broken relationships found'
+    );
+    const hiddenTargets = findHiddenTargets(relationships);
+    if (hiddenTargets.length) {
+      lines.push(
+        '',
+        `Pointing to hidden elements (${hiddenTargets.length}):\n${hiddenTargets.join('\n')}`
+      );
+    }
+  } finally {
+    roleUtils.endAriaCaches();
+  }
+
+  return lines.join('\n');
+}
+
+export const getAriaRelationshipsTool: ToolHandler<GetAriaRelationshipsMessage> =
+  {
+    definition: getAriaRelationshipsDefinition,
+    messageSchema: GetAriaRelationshipsMessageSchema,
+    execute: executeGetAriaRelationships,
+  };
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { box, getElementComputedStyle } from '../domUtils.js';
 import { extractReactInfo } from '../reactUtils.js';
+import * as roleUtils from '../roleUtils.js';
 import type { ToolHandler } from './base.js';
 import {
   getElementByRefOrThrow,
@@ -670,31 +671,49 @@ function getAccessibleName(element: Element): string | undefined {
   return undefined;
 }
 
+export const kLandmarkRoles = [
+  'banner',
+  'navigation',
+  'main',
+  'complementary',
+  'contentinfo',
+  'region',
+  'search',
+  'form',
+];
+
+const kLandmarkSelector = `${kLandmarkRoles.map((r) => `[role="${r}"]`).join(',')},nav,main,aside,header,footer,section[aria-label],section[aria-labelledby],form[aria-label],form[aria-labelledby]`;
+
+/**
+ * Landmark role of an element, if any. Uses the computed ARIA role, so a header inside
+ * an article is not a banner and an unnamed section is not a region.
+ */
+export function getLandmarkRole(element: Element): string | undefined {
+  const role = roleUtils.getAriaRole(element);
+  return role && kLandmarkRoles.includes(role) ? role : undefined;
+}
+
+/**
+ * Landmarks contained in a root, in document order
+ */
+export function queryLandmarks(
+  root: Element | Document | ShadowRoot
+): Element[] {
+  return Array.from(root.querySelectorAll(kLandmarkSelector)).filter(
+    (landmark) => !!getLandmarkRole(landmark)
+  );
+}
+
 function getLandmarks(element: Element): string[] {
   const landmarks: string[] = [];
-  const role = element.getAttribute('role') || getImplicitRole(element);
-
-  const landmarkRoles = [
-    'banner',
-    'navigation',
-    'main',
-    'complementary',
-    'contentinfo',
-    'region',
-    'search',
-    'form',
-  ];
-  if (role && landmarkRoles.includes(role)) {
+  const role = getLandmarkRole(element);
+  if (role) {
     landmarks.push(role);
   }
 
   // Check if element contains landmarks
-  const landmarkSelectors = `${landmarkRoles.map((r) => `[role="${r}"]`).join(',')},nav,main,aside,header,footer,section[aria-label],section[aria-labelledby],form[aria-label],form[aria-labelledby]`;
-
-  const containedLandmarks = element.querySelectorAll(landmarkSelectors);
-  for (const landmark of containedLandmarks) {
-    const landmarkRole =
-      landmark.getAttribute('role') || getImplicitRole(landmark as Element);
+  for (const landmark of queryLandmarks(element)) {
+    const landmarkRole = getLandmarkRole(landmark);
     if (landmarkRole && !landmarks.includes(landmarkRole)) {
       landmarks.push(landmarkRole);
     }
@@ -0,0 +1,250 @@
+import { z } from 'zod';
+import { generateAriaTree } from '../ariaSnapshot.js';
+import {
+  getElementComputedStyle,
+  isElementVisible,
+  parentElementOrShadowHost,
+} from '../domUtils.js';
+import {
+  collectFlatTree,
+  computeTabStops,
+  type TabStop,
+} from '../focusNavigation.js';
+import {
+  type FocusOrderOverlayEntry,
+  hideFocusOrderOverlay,
+  showFocusOrderOverlay,
+} from '../focusOrderOverlay.js';
+import { describeElement } from '../refRegistry.js';
+import * as roleUtils from '../roleUtils.js';
+import type { ToolHandler } from './base.js';
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const getFocusOrderSchema = z.object({
+  overlay: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe(
+      'Number the tab stops in an in-page overlay for visual review; false removes a previously shown overlay'
+    ),
+  limit: z
+    .number()
+    .optional()
+    .default(200)
+    .describe(
+      'Maximum number of tab stops to list (default: 200); issues are always reported in full'
+    ),
+});
+
+export const getFocusOrderDefinition = {
+  name: 'get_focus_order',
+  description: `List every element reachable with the Tab key, in sequential focus order, with ref, tabindex, visibility and bounding box [x,y,wxh].
+
+Flags keyboard accessibility issues:
+- positive tabindex, which overrides the document order
+- focusable but hidden elements (zero size, offscreen, transparent or aria-hidden); skip links that only appear on focus are expected here
+- interactive elements (buttons, links, form controls, onclick handlers) that cannot be reached with the keyboard
+
+Radio groups count as one tab stop. Set overlay=true to number the tab stops on the page so a human can check the order visually.`,
+  inputSchema: getFocusOrderSchema.shape, // Will have sessionId added by MCP server
+};
+
+const GetFocusOrderMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('get_focus_order'),
+  payload: getFocusOrderSchema,
+});
+
+type GetFocusOrderMessage = z.infer<typeof GetFocusOrderMessageSchema>;
+
+const kInteractiveRoles = [
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+  'treeitem',
+];
+
+// Widgets that move focus between their items with arrow keys (roving tabindex or aria-activedescendant)
+const kCompositeRoles = [
+  'combobox',
+  'grid',
+  'listbox',
+  'menu',
+  'menubar',
+  'radiogroup',
+  'tablist',
+  'tree',
+  'treegrid',
+];
+
+function getHiddenReason(element: Element): string | undefined {
+  if (roleUtils.isElementHiddenForAria(element)) return 'aria-hidden';
+  const rect = element.getBoundingClientRect();
+  if (rect.width <= 1 || rect.height <= 1) return 'zero size';
+  if (rect.right + window.scrollX <= 0 || rect.bottom + window.scrollY <= 0)
+    return 'offscreen';
+  for (
+    let current: Element | undefined = element;
+    current;
+    current = parentElementOrShadowHost(current)
+  ) {
+    if (getElementComputedStyle(current)?.opacity === '0') return 'transparent';
+  }
+  return undefined;
+}
+
+function findUnreachable(
+  elements: Element[],
+  stops: TabStop[],
+  arrowKeyRadios: Set<Element>
+): Element[] {
+  const stopElements = new Set(stops.map((stop) => stop.element));
+  const unreachable: Element[] = [];
+  for (const element of elements) {
+    if (stopElements.has(element) || arrowKeyRadios.has(element)) continue;
+    const role = roleUtils.getAriaRole(element);
+    const interactive =
+      (role && kInteractiveRoles.includes(role)) ||
+      element.hasAttribute('onclick');
+    if (!interactive) continue;
+    if (
+      !isElementVisible(element) ||
+      roleUtils.getAriaDisabled(element) ||
+      roleUtils.isElementHiddenForAria(element) ||
+      element.closest('[inert]')
+    )
+      continue;
+
+    let container: Element | undefined;
+    for (
+      let ancestor = parentElementOrShadowHost(element);
+      ancestor && !container;
+      ancestor = parentElementOrShadowHost(ancestor)
+    ) {
+      const ancestorRole = roleUtils.getAriaRole(ancestor);
+      if (ancestorRole && kCompositeRoles.includes(ancestorRole))
+        container = ancestor;
+    }
+    if (
+      container &&
+      (stopElements.has(container) ||
+        stops.some((stop) => container.contains(stop.element)))
+    )
+      continue;
+
+    unreachable.push(element);
+  }
+  return unreachable;
+}
+
+function formatBox(element: Element): string {
+  const rect = element.getBoundingClientRect();
+  return `[${Math.round(rect.x)},${Math.round(rect.y)},${Math.round(rect.width)}x${Math.round(rect.height)}]`;
+}
+
+async function executeGetFocusOrder(
+  message: GetFocusOrderMessage
+): Promise<any> {
+  const { overlay = false, limit = 200 } = message.payload;
+
+  // Assign refs so that every tab stop can be targeted by other tools
+  generateAriaTree(document.body, { mode: 'ai' });
+
+  roleUtils.beginAriaCaches();
+  let lines: string[];
+  let issues: string[];
+  let overlayEntries: FocusOrderOverlayEntry[];
+  try {
+    const elements = collectFlatTree(document.documentElement);
+    const { stops, arrowKeyRadios } = computeTabStops(elements);
+    for (const stop of stops) stop.hidden = getHiddenReason(stop.element);
+    const unreachable = findUnreachable(elements, stops, arrowKeyRadios);
+
+    lines = stops.slice(0, limit).map((stop, index) => {
+      let line = `${index + 1}. ${describeElement(stop.element)} tabindex=${stop.tabIndex} ${formatBox(stop.element)}`;
+      if (stop.hidden) line += ` hidden: ${stop.hidden}`;
+      return line;
+    });
+    if (stops.length > limit)
+      lines.push(`… ${stops.length - limit} more tab stops`);
+
+    issues = [];
+    for (const stop of stops) {
+      if (stop.tabIndex > 0)
+        issues.push(
+          `- Positive tabindex overrides document order: ${describeElement(stop.element)} tabindex=${stop.tabIndex}`
+        );
+    }
+    for (const stop of stops) {
+      if (stop.hidden)
+        issues.push(
+          `- Focusable but hidden (${stop.hidden}): ${describeElement(stop.element)}`
+        );
+    }
+    for (const element of unreachable) {
+      const reason =
+        element.getAttribute('tabindex') === '-1'
+          ? 'tabindex="-1"'
+          : 'not focusable';
+      issues.push(
+        `- Not keyboard reachable (${reason}): ${describeElement(element)}`
+      );
+    }
+
+    overlayEntries = [
+      ...stops
+        .filter((stop) => !stop.hidden)
+        .map((stop) => ({
+          element: stop.element,
+          label: String(stops.indexOf(stop) + 1),
+          kind: stop.tabIndex > 0 ? ('positive' as const) : ('stop' as const),
+        })),
+      ...unreachable.map((element) => ({
+        element,
+        label: '✕',
+        kind: 'unreachable' as const,
+      })),
+    ];
+    if (!stops.length) lines = ['No focusable elements found'];
+    lines.unshift(`Focus order (${stops.length} tab stops):`, '');
+  } finally {
+    roleUtils.endAriaCaches();
+  }
+
+  const sections = [lines.join('\n')];
+  sections.push(
+    issues.length
+      ? `Issues (${issues.length}):\n${issues.join('\n')}`
+      : 'No focus order issues found'
+  );
+
+  if (overlay) {
+    showFocusOrderOverlay(overlayEntries);
+    sections.push(
+      'Overlay shown: blue outlines number the tab stops, orange ones have a positive tabindex, red dashed ones are unreachable. Call get_focus_order(overlay=false) to remove it.'
+    );
+  } else if (hideFocusOrderOverlay()) {
+    sections.push('Overlay removed.');
+  }
+
+  return sections.join('\n\n');
+}
+
+export const getFocusOrderTool: ToolHandler<GetFocusOrderMessage> = {
+  definition: getFocusOrderDefinition,
+  messageSchema: GetFocusOrderMessageSchema,
+  execute: executeGetFocusOrder,
+};
@@ -0,0 +1,261 @@
+import { normalizeWhiteSpace } from '@isomorphic/stringUtils';
+import { z } from 'zod';
+import { collectElements } from '../domUtils.js';
+import * as roleUtils from '../roleUtils.js';
+import type { ToolHandler } from './base.js';
+import {
+  baseToolSchema,
+  describeRefResolution,
+  resolveRefOrThrow,
+} from './common.js';
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const getLocatorSchema = baseToolSchema.omit({ captureSnapshot: true });
+
+export const getLocatorDefinition = {
+  name: 'get_locator',
+  description: `Generate a Playwright locator for an element reference, to turn an interaction into a test.
+
+Candidates are tried from most to least robust, and the first one that matches exactly one element in the document is returned:
+1. page.getByRole('button', { name: 'Submit', exact: true })
+2. page.getByLabel('Email', { exact: true })
+3. page.getByTestId('submit-button')
+4. page.getByText('Welcome back', { exact: true })
+5. page.locator('#checkout > button:nth-of-type(2)')
+
+Other unique candidates are listed as alternatives. Elements inside iframes are scoped with page.frameLocator(...).`,
+  inputSchema: getLocatorSchema.shape, // Will have sessionId added by MCP server
+};
+
+const GetLocatorMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('get_locator'),
+  payload: getLocatorSchema, // Same schema as the core tool
+});
+
+type GetLocatorMessage = z.infer<typeof GetLocatorMessageSchema>;
+
+type LocatorCandidate = {
+  strategy: 'role' | 'label' | 'test id' | 'text' | 'css';
+  locator: string;
+  // Number of elements the locator matches in the element's document
+  count: number;
+};
+
+// Roles that getByRole cannot target meaningfully
+const kUnlocatableRoles = ['generic', 'none', 'presentation'];
+
+// Longer texts make brittle locators
+const MAX_TEXT_LENGTH = 80;
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+function accessibleName(element: Element): string {
+  return normalizeWhiteSpace(
+    roleUtils.getElementAccessibleName(element, false)
+  );
+}
+
+function labelTexts(element: Element): string[] {
+  const texts: string[] = [];
+  const ariaLabel = element.getAttribute('aria-label');
+  if (ariaLabel) texts.push(normalizeWhiteSpace(ariaLabel));
+  const labelledBy = roleUtils.getAriaLabelledByElements(element);
+  if (labelledBy?.length) {
+    texts.push(
+      normalizeWhiteSpace(
+        labelledBy.map((label) => label.textContent || '').join(' ')
+      )
+    );
+  }
+  const labels = (element as HTMLInputElement).labels;
+  if (labels) {
+    for (const label of labels)
+      texts.push(normalizeWhiteSpace(label.textContent || ''));
+  }
+  return texts.filter(Boolean);
+}
+
+function elementText(element: Element): string {
+  if (element.nodeName === 'SCRIPT' || element.nodeName === 'STYLE') return '';
+  return normalizeWhiteSpace(element.textContent || '');
+}
+
+// Matches getByText: the innermost elements whose whole text equals the given text
+function matchesText(element: Element, text: string): boolean {
+  if (elementText(element) !== text) return false;
+  for (const child of element.children) {
+    if (elementText(child) === text) return false;
+  }
+  return true;
+}
+
+// Shadow roots of same-origin iframes come from another realm, so no instanceof
+function isShadowRoot(node: Node): node is ShadowRoot {
+  return node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node;
+}
+
+function cssSegment(element: Element): string {
+  const tag = element.localName;
+  const parent = element.parentElement;
+  if (!parent) return tag;
+  const sameTag = Array.from(parent.children).filter(
+    (sibling) => sibling.localName === tag
+  );
+  if (sameTag.length === 1) return tag;
+  return `${tag}:nth-of-type(${sameTag.indexOf(element) + 1})`;
+}
+
+/**
+ * Structural CSS path, anchored at the closest ancestor with a unique id.
+ * Shadow roots are crossed with a descendant combinator, which Playwright pierces.
+ */
+function cssPath(element: Element): string {
+  const segments: string[] = [];
+  for (
+    let current: Element | null = element;
+    current;
+    current = current.parentElement
+  ) {
+    const root = current.getRootNode() as Document | ShadowRoot;
+    if (
+      current.id &&
+      root.querySelectorAll(`#${CSS.escape(current.id)}`).length === 1
+    ) {
+      segments.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+    segments.unshift(cssSegment(current));
+    if (!current.parentElement && isShadowRoot(root)) {
+      return `${cssPath(root.host)} ${segments.join(' > ')}`;
+    }
+  }
+  return segments.join(' > ');
+}
+
+// page.frameLocator(...) chain down to the element's frame
+function frameScope(element: Element): string {
+  let scope = '';
+  for (
+    let frame = element.ownerDocument.defaultView?.frameElement;
+    frame;
+    frame = frame.ownerDocument.defaultView?.frameElement
+  ) {
+    scope = `.frameLocator(${quote(cssPath(frame))})${scope}`;
+  }
+  return `page${scope}`;
+}
+
+function generateCandidates(element: Element): LocatorCandidate[] {
+  const scope = frameScope(element);
+  const elements = collectElements(element.ownerDocument);
+  const candidates: LocatorCandidate[] = [];
+
+  const role = roleUtils.getAriaRole(element);
+  if (role && !kUnlocatableRoles.includes(role)) {
+    const name = accessibleName(element);
+    // Without a name, getByRole matches every element with the role
+    const count = elements.filter(
+      (candidate) =>
+        roleUtils.getAriaRole(candidate) === role &&
+        !roleUtils.isElementHiddenForAria(candidate) &&
+        (!name || accessibleName(candidate) === name)
+    ).length;
+    const options = name ? `, { name: ${quote(name)}, exact: true }` : '';
+    candidates.push({
+      strategy: 'role',
+      locator: `${scope}.getByRole(${quote(role)}${options})`,
+      count,
+    });
+  }
+
+  const [label] = labelTexts(element);
+  if (label) {
+    const count = elements.filter((candidate) =>
+      labelTexts(candidate).includes(label)
+    ).length;
+    candidates.push({
+      strategy: 'label',
+      locator: `${scope}.getByLabel(${quote(label)}, { exact: true })`,
+      count,
+    });
+  }
+
+  const testId = element.getAttribute('data-testid');
+  if (testId) {
+    const count = elements.filter(
+      (candidate) => candidate.getAttribute('data-testid') === testId
+    ).length;
+    candidates.push({
+      strategy: 'test id',
+      locator: `${scope}.getByTestId(${quote(testId)})`,
+      count,
+    });
+  }
+
+  const text = elementText(element);
+  if (text && text.length <= MAX_TEXT_LENGTH && matchesText(element, text)) {
+    const count = elements.filter((candidate) =>
+      matchesText(candidate, text)
+    ).length;
+    candidates.push({
+      strategy: 'text',
+      locator: `${scope}.getByText(${quote(text)}, { exact: true })`,
+      count,
+    });
+  }
+
+  const css = cssPath(element);
+  candidates.push({
+    strategy: 'css',
+    locator: `${scope}.locator(${quote(css)})`,
+    // Paths into shadow roots are unique by construction
+    count: isShadowRoot(element.getRootNode())
+      ? 1
+      : element.ownerDocument.querySelectorAll(css).length,
+  });
+
+  return candidates;
+}
+
+async function executeGetLocator(message: GetLocatorMessage): Promise<any> {
+  const resolved = resolveRefOrThrow(message.payload.ref);
+
+  roleUtils.beginAriaCaches();
+  let candidates: LocatorCandidate[];
+  try {
+    candidates = generateCandidates(resolved.element);
+  } finally {
+    roleUtils.endAriaCaches();
+  }
+
+  const unique = candidates.filter((candidate) => candidate.count === 1);
+  const note = describeRefResolution(message.payload.ref, resolved);
+  if (!unique.length) {
+    const fallback = candidates[candidates.length - 1];
+    return `${fallback.locator}
+
+WARNING: No unique locator found for ref "${message.payload.ref}"${note}; this locator matches ${fallback.count} elements.`;
+  }
+
+  const [best, ...alternatives] = unique;
+  const lines = [
+    best.locator,
+    '',
+    `Strategy: ${best.strategy} (unique in document) for ref "${message.payload.ref}"${note}`,
+  ];
+  if (alternatives.length) {
+    lines.push('Alternatives:');
+    for (const alternative of alternatives)
+      lines.push(`- ${alternative.locator}`);
+  }
+  return lines.join('\n');
+}
+
+export const getLocatorTool: ToolHandler<GetLocatorMessage> = {
+  definition: getLocatorDefinition,
+  messageSchema: GetLocatorMessageSchema,
+  execute: executeGetLocator,
+};
@@ -0,0 +1,170 @@
+import { normalizeWhiteSpace } from '@isomorphic/stringUtils';
+import { z } from 'zod';
+import { generateAriaTree } from '../ariaSnapshot.js';
+import { collectElements, parentElementOrShadowHost } from '../domUtils.js';
+import * as roleUtils from '../roleUtils.js';
+import type { ToolHandler } from './base.js';
+import { getLandmarkRole } from './getElementInfo.js';
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const getPageOutlineSchema = z.object({});
+
+export const getPageOutlineDefinition = {
+  name: 'get_page_outline',
+  description: `Get a compact outline of the page: the landmark tree (banner, navigation, main, complementary, contentinfo, form, region, search) and the headings inside it, with levels and refs, including those in open shadow roots. Much cheaper than take_snapshot for orienting on a page.
+
+\`\`\`
+- banner [ref=e1]
+  - navigation "Main" [ref=e2]
+- main [ref=e5]
+  - heading "Billing" [level=1] [ref=e6]
+  - heading "Payment method" [level=2] [ref=e9]
+\`\`\`
+
+Flags skipped heading levels (e.g. h2 followed by h4), multiple main landmarks, and landmarks without a label when several share the same role. Pass a ref to take_snapshot to see the content of a section.`,
+  inputSchema: getPageOutlineSchema.shape, // Will have sessionId added by MCP server
+};
+
+const GetPageOutlineMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('get_page_outline'),
+  payload: getPageOutlineSchema,
+});
+
+type GetPageOutlineMessage = z.infer<typeof GetPageOutlineMessageSchema>;
+
+type OutlineEntry = {
+  element: Element;
+  role: string;
+  name: string;
+  // Heading level, 0 for landmarks
+  level: number;
+  // Number of enclosing landmarks
+  depth: number;
+};
+
+function collectOutline(root: Document): OutlineEntry[] {
+  // Document order, with the content of open shadow roots in place of their host
+  const elements = collectElements(root).filter(
+    (element) =>
+      (getLandmarkRole(element) ||
+        roleUtils.getAriaRole(element) === 'heading') &&
+      !roleUtils.isElementHiddenForAria(element)
+  );
+  const landmarkSet = new Set(
+    elements.filter((element) => getLandmarkRole(element))
+  );
+
+  return elements.map((element) => {
+    let depth = 0;
+    for (
+      let ancestor = parentElementOrShadowHost(element);
+      ancestor;
+      ancestor = parentElementOrShadowHost(ancestor)
+    ) {
+      if (landmarkSet.has(ancestor)) depth++;
+    }
+    const isLandmark = landmarkSet.has(element);
+    return {
+      element,
+      role: isLandmark ? getLandmarkRole(element) || '' : 'heading',
+      name: normalizeWhiteSpace(
+        roleUtils.getElementAccessibleName(element, false)
+      ),
+      // role="heading" without aria-level defaults to level 2
+      level: isLandmark ? 0 : roleUtils.getAriaLevel(element) || 2,
+      depth,
+    };
+  });
+}
+
+function describeEntry(entry: OutlineEntry): string {
+  let description = entry.role;
+  if (entry.name) description += ` ${JSON.stringify(entry.name)}`;
+  if (entry.level) description += ` [level=${entry.level}]`;
+  const ref = (entry.element as any)._ariaRef?.ref;
+  if (ref) description += ` [ref=${ref}]`;
+  return description;
+}
+
+function findIssues(entries: OutlineEntry[]): string[] {
+  const issues: string[] = [];
+
+  let previous: OutlineEntry | undefined;
+  for (const heading of entries.filter((entry) => entry.level)) {
+    if (previous && heading.level > previous.level + 1) {
+      issues.push(
+        `- Skipped heading level: ${describeEntry(previous)} is followed by ${describeEntry(heading)}`
+      );
+    }
+    previous = heading;
+  }
+
+  const landmarks = entries.filter((entry) => !entry.level);
+  const mains = landmarks.filter((entry) => entry.role === 'main');
+  if (mains.length > 1) {
+    issues.push(
+      `- Multiple main landmarks (${mains.length}): ${mains.map(describeEntry).join(', ')}`
+    );
+  }
+
+  const byRole = new Map<string, OutlineEntry[]>();
+  for (const landmark of landmarks) {
+    byRole.set(landmark.role, [...(byRole.get(landmark.role) ?? []), landmark]);
+  }
+  for (const [role, group] of byRole) {
+    // Multiple mains are already reported above
+    if (role === 'main' || group.length < 2) continue;
+    const unlabeled = group.filter((entry) => !entry.name);
+    if (unlabeled.length) {
+      issues.push(
+        `- ${group.length} ${role} landmarks, ${unlabeled.length} without a label to tell them apart: ${unlabeled.map(describeEntry).join(', ')}`
+      );
+    }
+  }
+
+  return issues;
+}
+
+async function executeGetPageOutline(
+  _message: GetPageOutlineMessage
+): Promise<any> {
+  // Assign refs so that sections can be passed to other tools
+  generateAriaTree(document.body, { mode: 'ai' });
+
+  roleUtils.beginAriaCaches();
+  let entries: OutlineEntry[];
+  try {
+    entries = collectOutline(document);
+  } finally {
+    roleUtils.endAriaCaches();
+  }
+
+  if (!entries.length) {
+    return 'No landmarks or headings found. The page has no structure for assistive technology to navigate by; consider adding a main landmark and headings.';
+  }
+
+  const headingCount = entries.filter((entry) => entry.level).length;
+  const lines = [
+    `Page outline (${entries.length - headingCount} landmarks, ${headingCount} headings):`,
+    '',
+    ...entries.map(
+      (entry) => `${'  '.repeat(entry.depth)}- ${describeEntry(entry)}`
+    ),
+  ];
+
+  const issues = findIssues(entries);
+  lines.push(
+    '',
+    issues.length
+      ? `Issues (${issues.length}):\n${issues.join('\n')}`
+      : 'No outline issues found'
+  );
+  return lines.join('\n');
+}
+
+export const getPageOutlineTool: ToolHandler<GetPageOutlineMessage> = {
+  definition: getPageOutlineDefinition,
+  messageSchema: GetPageOutlineMessageSchema,
+  execute: executeGetPageOutline,
+};
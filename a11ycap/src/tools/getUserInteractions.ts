@@ -73,12 +73,12 @@ export async function execute(
 ): Promise<string> {
   const { type, since, limit = 100 } = message.payload;
 
-  // Get interaction events (filter out console events)
+  // Get interaction events (filter out console events and announcements)
   const allEventStrings = getEvents({ since, limit: limit * 2 }); // Get more to ensure we have enough after filtering
   const interactionStrings = allEventStrings.filter((eventStr) => {
     try {
       const event = JSON.parse(eventStr);
-      return event.type !== 'console';
+      return event.type !== 'console' && event.type !== 'announcement';
     } catch {
       return false;
     }
@@ -1,6 +1,10 @@
 import { z } from 'zod';
 import type { ToolHandler } from './base.js';
-import { baseToolSchema, getElementByRefOrThrow } from './common.js';
+import {
+  baseToolSchema,
+  describeRefResolution,
+  resolveRefOrThrow,
+} from './common.js';
 
 // Core tool schema without sessionId (which is added by MCP server for routing)
 const hoverElementSchema = baseToolSchema;
@@ -20,13 +24,14 @@ const HoverElementMessageSchema = z.object({
 type HoverElementMessage = z.infer<typeof HoverElementMessageSchema>;
 
 async function executeHoverElement(message: HoverElementMessage): Promise<any> {
-  const element = getElementByRefOrThrow(message.payload.ref);
+  const resolved = resolveRefOrThrow(message.payload.ref);
+  const element = resolved.element;
 
   // Dispatch hover events
   element.dispatchEvent(new MouseEvent('mouseenter', { bubbles: true }));
   element.dispatchEvent(new MouseEvent('mouseover', { bubbles: true }));
 
-  return `Successfully hovered over element with ref "${message.payload.ref}"`;
+  return `Successfully hovered over element with ref "${message.payload.ref}"${describeRefResolution(message.payload.ref, resolved)}`;
 }
 
 export const hoverElementTool: ToolHandler<HoverElementMessage> = {
@@ -5,7 +5,24 @@ export {
 } from './captureElementImage.js';
 export { clickElementDefinition, clickElementTool } from './clickElement.js';
 export { doctorDefinition, doctorTool } from './doctor.js';
+export { dragAndDropDefinition, dragAndDropTool } from './dragAndDrop.js';
 export { executeJsDefinition, executeJsTool } from './executeJs.js';
+export {
+  expectAriaSnapshotDefinition,
+  expectAriaSnapshotTool,
+} from './expectAriaSnapshot.js';
+export {
+  explainAccessibleNameDefinition,
+  explainAccessibleNameTool,
+} from './explainAccessibleName.js';
+export {
+  getAnnouncementsDefinition,
+  getAnnouncementsTool,
+} from './getAnnouncements.js';
+export {
+  getAriaRelationshipsDefinition,
+  getAriaRelationshipsTool,
+} from './getAriaRelationships.js';
 export {
   getConsoleLogsDefinition,
   getConsoleLogsTool,
@@ -14,10 +31,19 @@ export {
   getElementInfoDefinition,
   getElementInfoTool,
 } from './getElementInfo.js';
+export {
+  getFocusOrderDefinition,
+  getFocusOrderTool,
+} from './getFocusOrder.js';
+export { getLocatorDefinition, getLocatorTool } from './getLocator.js';
 export {
   getNetworkRequestsDefinition,
   getNetworkRequestsTool,
 } from './getNetworkRequests.js';
+export {
+  getPageOutlineDefinition,
+  getPageOutlineTool,
+} from './getPageOutline.js';
 export {
   getPickedElementsDefinition,
   getPickedElementsTool,
@@ -41,6 +67,12 @@ export {
   pressKeyGlobalDefinition,
   pressKeyGlobalTool,
 } from './pressKeyGlobal.js';
+export { rightClickDefinition, rightClickTool } from './rightClick.js';
+export {
+  screenReaderDefinition,
+  screenReaderTool,
+} from './screenReader.js';
+export { scrollDefinition, scrollTool } from './scroll.js';
 export { selectOptionDefinition, selectOptionTool } from './selectOption.js';
 export {
   showElementPickerDefinition,
@@ -53,10 +85,18 @@ export { waitForDefinition, waitForTool } from './waitFor.js';
 import { captureElementImageTool } from './captureElementImage.js';
 import { clickElementTool } from './clickElement.js';
 import { doctorTool } from './doctor.js';
+import { dragAndDropTool } from './dragAndDrop.js';
 import { executeJsTool } from './executeJs.js';
+import { expectAriaSnapshotTool } from './expectAriaSnapshot.js';
+import { explainAccessibleNameTool } from './explainAccessibleName.js';
+import { getAnnouncementsTool } from './getAnnouncements.js';
+import { getAriaRelationshipsTool } from './getAriaRelationships.js';
 import { getConsoleLogsTool } from './getConsoleLogs.js';
 import { getElementInfoTool } from './getElementInfo.js';
+import { getFocusOrderTool } from './getFocusOrder.js';
+import { getLocatorTool } from './getLocator.js';
 import { getNetworkRequestsTool } from './getNetworkRequests.js';
+import { getPageOutlineTool } from './getPageOutline.js';
 import { getPickedElementsTool } from './getPickedElements.js';
 import { getReadabilityTool } from './getReadability.js';
 import { getUserInteractionsTool } from './getUserInteractions.js';
@@ -65,6 +105,9 @@ import { listTabsTool } from './listTabs.js';
 import { mutateElementTool } from './mutateElement.js';
 import { pressKeyTool } from './pressKey.js';
 import { pressKeyGlobalTool } from './pressKeyGlobal.js';
+import { rightClickTool } from './rightClick.js';
+import { screenReaderTool } from './screenReader.js';
+import { scrollTool } from './scroll.js';
 import { selectOptionTool } from './selectOption.js';
 import { showElementPickerTool } from './showElementPicker.js';
 import { takeSnapshotTool } from './takeSnapshot.js';
@@ -73,15 +116,26 @@ import { waitForTool } from './waitFor.js';
 
 export const allTools = [
   takeSnapshotTool,
+  expectAriaSnapshotTool,
   clickElementTool,
+  rightClickTool,
+  dragAndDropTool,
+  scrollTool,
   doctorTool,
+  screenReaderTool,
+  getFocusOrderTool,
+  explainAccessibleNameTool,
+  getPageOutlineTool,
+  getAriaRelationshipsTool,
   getNetworkRequestsTool,
   getReadabilityTool,
   getConsoleLogsTool,
+  getAnnouncementsTool,
   getUserInteractionsTool,
   captureElementImageTool,
   getPickedElementsTool,
   getElementInfoTool,
+  getLocatorTool,
   mutateElementTool,
   listTabsTool,
   executeJsTool,
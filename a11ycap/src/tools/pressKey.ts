@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { deepActiveElement, pressKey } from '../keyboardActions.js';
 import type { ToolHandler } from './base.js';
 
 // Core tool schema without sessionId (which is added by MCP server for routing)
@@ -6,7 +7,7 @@ const pressKeySchema = z.object({
   key: z
     .string()
     .describe(
-      'Name of the key to press or a character to generate, such as `ArrowLeft` or `a`'
+      'Name of the key to press or a character to generate, such as `ArrowLeft` or `a`. Hold modifiers with a chord such as `Control+Shift+K`, `Meta+A` or `ControlOrMeta+C`'
     ),
   captureSnapshot: z
     .boolean()
@@ -17,7 +18,9 @@ const pressKeySchema = z.object({
 
 export const pressKeyDefinition = {
   name: 'press_key',
-  description: 'Press a key on the keyboard',
+  description: `Press a key or chord on the focused element with the key, code and keyCode of a US keyboard.
+
+Chords hold modifiers (Alt, Control, Meta, Shift, or ControlOrMeta for the platform's shortcut key) while the key is pressed, e.g. "Control+Shift+K". Unless a keydown handler cancels the key, the browser's default action is emulated and reported: Tab and Shift+Tab move focus, Enter submits forms and activates links and buttons, Space toggles checkboxes and activates buttons, Control/Meta+A selects all, in text fields characters are typed while Backspace, Delete, arrows, Home and End edit the text and move the caret, and in contenteditable editors characters, Enter, Backspace and Delete go through beforeinput.`,
   inputSchema: pressKeySchema.shape, // Will have sessionId added by MCP server
 };
 
@@ -35,14 +38,10 @@ async function executePressKey(message: PressKeyMessage): Promise<any> {
   }
 
   const key = message.payload.key;
-  const target = document.activeElement || document.body;
-
-  // Dispatch keyboard events
-  target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
-  target.dispatchEvent(new KeyboardEvent('keypress', { key, bubbles: true }));
-  target.dispatchEvent(new KeyboardEvent('keyup', { key, bubbles: true }));
+  const target = deepActiveElement() || document.body;
+  const action = pressKey(target, key, { defaultActions: true });
 
-  return `Successfully pressed key "${key}"`;
+  return `Successfully pressed key "${key}"${action ? `\nDefault action: ${action}` : ''}`;
 }
 
 export const pressKeyTool: ToolHandler<PressKeyMessage> = {
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { pressKey } from '../keyboardActions.js';
 import type { ToolHandler } from './base.js';
 
 // Core tool schema without sessionId (which is added by MCP server for routing)
@@ -6,7 +7,7 @@ const pressKeyGlobalSchema = z.object({
   key: z
     .string()
     .describe(
-      'Name of the key to press or a character to generate, such as `ArrowLeft` or `a`'
+      'Name of the key to press or a character to generate, such as `ArrowLeft` or `a`, or a chord such as `Control+Shift+K`'
     ),
   captureSnapshot: z
     .boolean()
@@ -38,9 +39,7 @@ async function executePressKeyGlobal(
   }
 
   const key = message.payload.key;
-  document.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
-  document.dispatchEvent(new KeyboardEvent('keypress', { key, bubbles: true }));
-  document.dispatchEvent(new KeyboardEvent('keyup', { key, bubbles: true }));
+  pressKey(document, key);
 
   return `Successfully pressed key "${key}" globally`;
 }
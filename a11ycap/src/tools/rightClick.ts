@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import type { ToolHandler } from './base.js';
+import { clickElementSchema, performClick } from './clickElement.js';
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const rightClickSchema = clickElementSchema.omit({
+  button: true,
+  clickCount: true,
+});
+
+export const rightClickDefinition = {
+  name: 'right_click',
+  description: `Right-click an element to open its context menu. Takes the same targeting as click_element: 'refs' (or the legacy 'ref'), a 'selector', a 'role' plus accessible 'name', or viewport 'coordinates'.
+
+After the same actionability checks as click_element, the element receives pointerdown, mousedown, pointerup and mouseup with the right button, then contextmenu and auxclick. Take a snapshot afterwards to find the menu that opened.`,
+  inputSchema: rightClickSchema.shape, // Will have sessionId added by MCP server
+};
+
+const RightClickMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('right_click'),
+  payload: rightClickSchema, // Same schema as the core tool
+});
+
+type RightClickMessage = z.infer<typeof RightClickMessageSchema>;
+
+async function executeRightClick(message: RightClickMessage): Promise<any> {
+  const description = await performClick(message.payload, 'right-click', {
+    button: 'right',
+    modifiers: message.payload.modifiers,
+  });
+  return `Successfully right-clicked ${description}`;
+}
+
+export const rightClickTool: ToolHandler<RightClickMessage> = {
+  definition: rightClickDefinition,
+  messageSchema: RightClickMessageSchema,
+  execute: executeRightClick,
+};
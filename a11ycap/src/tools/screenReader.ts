@@ -0,0 +1,417 @@
+import { normalizeWhiteSpace } from '@isomorphic/stringUtils';
+import { z } from 'zod';
+import { type AriaNode, generateAriaTree } from '../ariaSnapshot.js';
+import * as roleUtils from '../roleUtils.js';
+import type { ToolHandler } from './base.js';
+import {
+  elementTargetingSchema,
+  resolveRefOrThrow,
+  resolveSingleTargetElement,
+} from './common.js';
+import { kLandmarkRoles } from './getElementInfo.js';
+
+const kRotorCommands = {
+  next_heading: 'heading',
+  next_landmark: 'landmark',
+  next_form_field: 'form field',
+  next_link: 'link',
+} as const;
+
+type RotorCommand = keyof typeof kRotorCommands;
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const screenReaderSchema = elementTargetingSchema
+  .omit({ boundingBox: true })
+  .extend({
+    command: z
+      .enum([
+        'read',
+        'next_heading',
+        'next_landmark',
+        'next_form_field',
+        'next_link',
+      ])
+      .optional()
+      .default('read')
+      .describe(
+        'Read the scope in reading order, or move the virtual cursor to the next heading, landmark, form field or link'
+      ),
+    from: z
+      .string()
+      .optional()
+      .describe(
+        'Ref to start reading or searching from, like the position of the virtual cursor (defaults to the start of the scope)'
+      ),
+    max_lines: z
+      .number()
+      .optional()
+      .default(200)
+      .describe('Maximum number of transcript lines to return for "read"'),
+    skip: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe(
+        'Number of spoken lines to skip for "read", to continue a truncated transcript'
+      ),
+  });
+
+export const screenReaderDefinition = {
+  name: 'screen_reader',
+  description: `Hear the page the way a screen reader like NVDA or VoiceOver speaks it, in reading order.
+
+Scope with 'refs' (a single ref) or 'selector'; defaults to the whole page. Every spoken line ends with the ref of its element:
+\`\`\`
+navigation landmark, Main [ref=e2]
+list, 3 items [ref=e3]
+link, Home [ref=e4]
+out of list
+out of navigation landmark
+heading level 2, Billing [ref=e9]
+edit text, Email, jane@example.com, required [ref=e10]
+button, Save, disabled [ref=e11]
+\`\`\`
+
+Rotor commands move the virtual cursor like screen reader quick navigation: command="next_heading", "next_landmark", "next_form_field" or "next_link" returns the next matching element after 'from' (or the first one in the scope). Pass the returned ref as 'from' to keep navigating. command="read" with 'from' continues reading from that element; a truncated transcript ends with the 'from' and 'skip' to continue with.`,
+  inputSchema: screenReaderSchema.shape, // Will have sessionId added by MCP server
+};
+
+const ScreenReaderMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('screen_reader'),
+  payload: screenReaderSchema, // Same schema as the core tool
+});
+
+type ScreenReaderMessage = z.infer<typeof ScreenReaderMessageSchema>;
+
+// A spoken line; nodes without speech are kept so that 'from' can point at them
+type ReadingItem = {
+  speech: string;
+  node?: AriaNode;
+};
+
+const kRoleSpeech: Record<string, string> = {
+  alertdialog: 'alert dialog',
+  banner: 'banner landmark',
+  columnheader: 'column header',
+  combobox: 'combo box',
+  complementary: 'complementary landmark',
+  contentinfo: 'content info landmark',
+  iframe: 'frame',
+  img: 'image',
+  listbox: 'list box',
+  main: 'main landmark',
+  menuitem: 'menu item',
+  menuitemcheckbox: 'menu item check box',
+  menuitemradio: 'menu item radio button',
+  navigation: 'navigation landmark',
+  progressbar: 'progress bar',
+  radio: 'radio button',
+  rowheader: 'row header',
+  search: 'search landmark',
+  searchbox: 'search edit text',
+  spinbutton: 'spin button',
+  tabpanel: 'tab panel',
+  textbox: 'edit text',
+  treeitem: 'tree item',
+};
+
+// Roles that screen readers do not announce; only their content is read
+const kSilentRoles = [
+  'blockquote',
+  'caption',
+  'cell',
+  'code',
+  'definition',
+  'deletion',
+  'emphasis',
+  'fragment',
+  'generic',
+  'gridcell',
+  'insertion',
+  'listitem',
+  'mark',
+  'none',
+  'paragraph',
+  'presentation',
+  'row',
+  'rowgroup',
+  'strong',
+  'subscript',
+  'superscript',
+  'term',
+  'time',
+];
+
+// Roles whose name already covers their content
+const kLeafRoles = [
+  'button',
+  'checkbox',
+  'combobox',
+  'heading',
+  'img',
+  'link',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'meter',
+  'option',
+  'progressbar',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+];
+
+// Roles announced when the virtual cursor leaves them ("out of list")
+const kContainerRoles = [
+  'alertdialog',
+  'banner',
+  'complementary',
+  'contentinfo',
+  'dialog',
+  'figure',
+  'form',
+  'grid',
+  'list',
+  'listbox',
+  'main',
+  'menu',
+  'menubar',
+  'navigation',
+  'region',
+  'search',
+  'table',
+  'tablist',
+  'tree',
+];
+
+const kCheckableRoles = [
+  'checkbox',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'radio',
+  'switch',
+];
+
+const kFormFieldRoles = [
+  'button',
+  'checkbox',
+  'combobox',
+  'listbox',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'textbox',
+];
+
+function matchesRotor(node: AriaNode, command: RotorCommand): boolean {
+  switch (command) {
+    case 'next_heading':
+      return node.role === 'heading';
+    case 'next_landmark':
+      // Unnamed regions are not landmarks
+      return (
+        kLandmarkRoles.includes(node.role) &&
+        (node.role !== 'region' || !!node.name)
+      );
+    case 'next_form_field':
+      return kFormFieldRoles.includes(node.role);
+    case 'next_link':
+      return node.role === 'link';
+  }
+}
+
+function speakRole(node: AriaNode): string {
+  if (node.role === 'heading') return `heading level ${node.level}`;
+  if (node.role === 'button' && node.element.hasAttribute('aria-pressed'))
+    return 'toggle button';
+  if (node.role === 'list') {
+    const items = node.children.filter(
+      (child) => typeof child !== 'string' && child.role === 'listitem'
+    ).length;
+    return `list, ${items} ${items === 1 ? 'item' : 'items'}`;
+  }
+  return kRoleSpeech[node.role] ?? node.role;
+}
+
+function speakStates(node: AriaNode): string[] {
+  const states: string[] = [];
+  const element = node.element;
+  if (node.props.value) states.push(node.props.value);
+  else if (node.props.placeholder) states.push(node.props.placeholder);
+  if (kCheckableRoles.includes(node.role)) {
+    if (node.checked === 'mixed') states.push('half checked');
+    else states.push(node.checked ? 'checked' : 'not checked');
+  }
+  if (node.element.hasAttribute('aria-pressed')) {
+    if (node.pressed === 'mixed') states.push('half pressed');
+    else states.push(node.pressed ? 'pressed' : 'not pressed');
+  }
+  if (node.expanded !== undefined)
+    states.push(node.expanded ? 'expanded' : 'collapsed');
+  if (node.selected) states.push('selected');
+  if (
+    element.hasAttribute('required') ||
+    element.getAttribute('aria-required') === 'true'
+  )
+    states.push('required');
+  if (node.props.invalid) states.push('invalid entry');
+  if (node.disabled) states.push('disabled');
+  return states;
+}
+
+function speakNode(node: AriaNode): string {
+  if (kSilentRoles.includes(node.role)) return '';
+  if (node.role === 'region' && !node.name) return '';
+
+  const parts = [speakRole(node)];
+  if (node.name) parts.push(node.name);
+  parts.push(...speakStates(node));
+  const description = normalizeWhiteSpace(
+    roleUtils.getElementAccessibleDescription(node.element, false)
+  );
+  if (description && description !== node.name) parts.push(description);
+  return parts.join(', ');
+}
+
+/**
+ * Linearize the tree in reading order, the way a virtual cursor walks it
+ */
+function collectReadingItems(root: AriaNode): ReadingItem[] {
+  const items: ReadingItem[] = [];
+  // Text of a line, merged across silent inline elements such as <strong>
+  let text: string[] = [];
+  const flush = () => {
+    const line = normalizeWhiteSpace(text.join(' ')).replace(
+      / ([.,;:!?])/g,
+      '$1'
+    );
+    text = [];
+    if (line) items.push({ speech: line });
+  };
+
+  const visit = (node: AriaNode) => {
+    // AI snapshots keep visible elements that are hidden from assistive technology
+    if (
+      node.role !== 'fragment' &&
+      roleUtils.isElementHiddenForAria(node.element)
+    )
+      return;
+
+    const speech = speakNode(node);
+    const inline =
+      !speech && (node.box.style?.display || 'inline') === 'inline';
+    if (!inline) flush();
+    items.push({ speech, node });
+    if (kLeafRoles.includes(node.role) && node.name) return;
+
+    for (const child of node.children) {
+      if (typeof child === 'string') text.push(child);
+      else visit(child);
+    }
+    if (!inline) flush();
+    if (speech && kContainerRoles.includes(node.role))
+      items.push({ speech: `out of ${speakRole(node).split(',')[0]}` });
+  };
+  visit(root);
+  return items;
+}
+
+function renderItem(item: ReadingItem): string {
+  return item.node?.ref ? `${item.speech} [ref=${item.node.ref}]` : item.speech;
+}
+
+async function executeScreenReader(message: ScreenReaderMessage): Promise<any> {
+  const {
+    refs,
+    selector,
+    command = 'read',
+    from,
+    max_lines = 200,
+    skip = 0,
+  } = message.payload;
+
+  const scope =
+    refs?.length || selector
+      ? resolveSingleTargetElement({ refs, selector })
+      : document.body;
+
+  const tree = generateAriaTree(scope, { mode: 'ai' });
+  roleUtils.beginAriaCaches();
+  let items: ReadingItem[];
+  try {
+    items = collectReadingItems(tree.root);
+  } finally {
+    roleUtils.endAriaCaches();
+  }
+
+  let start = 0;
+  if (from) {
+    const fromElement = resolveRefOrThrow(from).element;
+    const index = items.findIndex((item) => item.node?.element === fromElement);
+    if (index === -1) {
+      throw new Error(
+        `Element with ref "${from}" is outside the scope or hidden from screen readers`
+      );
+    }
+    start = command === 'read' ? index : index + 1;
+  }
+
+  if (command !== 'read') {
+    const target = kRotorCommands[command];
+    const match = items
+      .slice(start)
+      .find((item) => item.node && matchesRotor(item.node, command));
+    if (!match?.node) {
+      return from
+        ? `No next ${target} after ref "${from}"`
+        : `No ${target} found`;
+    }
+    const next = match.node.ref
+      ? `\n\nNext: screen_reader(command="${command}", from="${match.node.ref}")`
+      : '';
+    return `${renderItem(match)}${next}`;
+  }
+
+  const spoken = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item, index }) => index >= start && item.speech)
+    .slice(skip);
+  if (spoken.length === 0) {
+    return 'Nothing to read: the scope has no content exposed to screen readers';
+  }
+
+  const lines = spoken.slice(0, max_lines).map(({ item }) => renderItem(item));
+  if (spoken.length > max_lines) {
+    // Text lines have no ref: resume from the closest element before the first
+    // unread line and skip the lines read since
+    const unread = spoken[max_lines].index;
+    let resume = unread;
+    while (resume >= 0 && !items[resume].node?.ref) resume--;
+    const resumeRef = resume >= 0 ? items[resume].node?.ref : undefined;
+    const skipped = items
+      .slice(Math.max(resume, 0), unread)
+      .filter((item) => item.speech).length;
+    const args = [
+      resumeRef ? `from="${resumeRef}"` : '',
+      skipped ? `skip=${skipped}` : '',
+    ].filter(Boolean);
+    lines.push(
+      `… ${spoken.length - max_lines} more lines; call screen_reader(${args.join(', ')}) to continue reading`
+    );
+  }
+  return lines.join('\n');
+}
+
+export const screenReaderTool: ToolHandler<ScreenReaderMessage> = {
+  definition: screenReaderDefinition,
+  messageSchema: ScreenReaderMessageSchema,
+  execute: executeScreenReader,
+};
@@ -0,0 +1,396 @@
+import { normalizeWhiteSpace } from '@isomorphic/stringUtils';
+import { z } from 'zod';
+import { generateAriaTree } from '../ariaSnapshot.js';
+import { querySelectorDeep } from '../deepSelector.js';
+import {
+  getElementComputedStyle,
+  isElementVisible,
+  isInsideScope,
+  parentElementOrShadowHost,
+} from '../domUtils.js';
+import { deepElementFromPoint, dispatchWheel } from '../pointerActions.js';
+import { describeElement } from '../refRegistry.js';
+import type { ToolHandler } from './base.js';
+import { resolveRefOrThrow, resolveSingleTargetElement } from './common.js';
+
+const kAlignment = z.enum(['start', 'center', 'end', 'nearest']);
+
+// Core tool schema without sessionId (which is added by MCP server for routing)
+const scrollSchema = z.object({
+  element: z
+    .string()
+    .optional()
+    .describe(
+      'Human-readable element description used to obtain permission to interact with the element'
+    ),
+  ref: z
+    .string()
+    .optional()
+    .describe(
+      'Element reference from snapshot (e.g., "e5"): the element to scroll into view, or with direction the container to scroll'
+    ),
+  selector: z
+    .string()
+    .optional()
+    .describe('CSS selector instead of ref. Use ">>>" to pierce shadow roots'),
+  direction: z
+    .enum(['up', 'down', 'left', 'right'])
+    .optional()
+    .describe(
+      'Scroll the container (ref/selector, or the window) in this direction instead of scrolling an element into view'
+    ),
+  amount: z
+    .number()
+    .positive()
+    .optional()
+    .default(1)
+    .describe('How far to scroll in the given unit (default: 1)'),
+  unit: z
+    .enum(['pixels', 'pages'])
+    .optional()
+    .default('pages')
+    .describe(
+      'Unit of amount; a page is 87.5% of the visible height or width, like Page Down (default: pages)'
+    ),
+  block: kAlignment
+    .optional()
+    .default('center')
+    .describe('Vertical alignment when scrolling into view (default: center)'),
+  inline: kAlignment
+    .optional()
+    .default('nearest')
+    .describe(
+      'Horizontal alignment when scrolling into view (default: nearest)'
+    ),
+  untilText: z
+    .string()
+    .optional()
+    .describe(
+      'Keep scrolling (default direction: down) until a visible element with this text exists, e.g. in an infinite feed'
+    ),
+  untilSelector: z
+    .string()
+    .optional()
+    .describe(
+      'Keep scrolling until a visible element matches this CSS selector'
+    ),
+  maxScrolls: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .default(20)
+    .describe('Maximum number of scrolls when scrolling until (default: 20)'),
+  timeout: z
+    .number()
+    .optional()
+    .default(2000)
+    .describe(
+      'Milliseconds to wait for more content to load at the end of the container when scrolling until (default: 2000)'
+    ),
+});
+
+export const scrollDefinition = {
+  name: 'scroll',
+  description: `Scroll the page, a scroll container or an element into view, and report the resulting scroll position and whether the end was reached.
+
+- 'ref' or 'selector' alone: scroll that element into view, aligned with 'block' and 'inline'
+- 'direction' with 'amount' and 'unit': scroll the window, or the container given by 'ref'/'selector' (its nearest scrollable ancestor if it does not scroll itself), by pixels or pages
+- 'untilText' or 'untilSelector': scroll page by page until the text or selector shows up, waiting for infinite feeds to load more content at the end
+
+Scrolling by direction dispatches a wheel event first, so scroll-driven UI reacts; if the page cancels it, the page is left to handle the scroll itself.`,
+  inputSchema: scrollSchema.shape, // Will have sessionId added by MCP server
+};
+
+const ScrollMessageSchema = z.object({
+  id: z.string(),
+  type: z.literal('scroll'),
+  payload: scrollSchema, // Same schema as the core tool
+});
+
+type ScrollMessage = z.infer<typeof ScrollMessageSchema>;
+
+type Direction = 'up' | 'down' | 'left' | 'right';
+
+// Fraction of the visible size a Page Down scrolls by
+const kPageFraction = 0.875;
+
+function scrollingElement(): Element {
+  return document.scrollingElement ?? document.documentElement;
+}
+
+function isScrollable(element: Element, vertical: boolean): boolean {
+  if (element === scrollingElement()) return true;
+  const overflow =
+    getElementComputedStyle(element)?.[vertical ? 'overflowY' : 'overflowX'];
+  if (!overflow || !/^(auto|scroll|overlay)$/.test(overflow)) return false;
+  return vertical
+    ? element.scrollHeight > element.clientHeight
+    : element.scrollWidth > element.clientWidth;
+}
+
+/**
+ * The element itself when it scrolls along the axis, else its nearest scrollable
+ * ancestor, else the document
+ */
+function scrollContainerFor(element: Element, vertical: boolean): Element {
+  for (
+    let current: Element | undefined = element;
+    current;
+    current = parentElementOrShadowHost(current)
+  ) {
+    if (current === document.body || current === document.documentElement)
+      break;
+    if (isScrollable(current, vertical)) return current;
+  }
+  return scrollingElement();
+}
+
+// The document scroller is the window, not the <html> element
+function describeTarget(element: Element): string {
+  return element === scrollingElement() ? 'window' : describeElement(element);
+}
+
+function atEnd(container: Element, direction: Direction): boolean {
+  switch (direction) {
+    case 'up':
+      return container.scrollTop <= 0;
+    case 'down':
+      return (
+        container.scrollTop + container.clientHeight >=
+        container.scrollHeight - 1
+      );
+    case 'left':
+      return container.scrollLeft <= 0;
+    case 'right':
+      return (
+        container.scrollLeft + container.clientWidth >=
+        container.scrollWidth - 1
+      );
+  }
+}
+
+function describePosition(container: Element, direction?: Direction): string {
+  const maxX = Math.max(0, container.scrollWidth - container.clientWidth);
+  const maxY = Math.max(0, container.scrollHeight - container.clientHeight);
+  const lines = [
+    `Scroll position of ${describeTarget(container)}: x=${Math.round(container.scrollLeft)}, y=${Math.round(container.scrollTop)} (max x=${maxX}, y=${maxY})`,
+  ];
+  if (direction) {
+    const edge = { up: 'top', down: 'bottom', left: 'left', right: 'right' };
+    lines.push(
+      atEnd(container, direction)
+        ? `Reached the ${edge[direction]} end`
+        : `Not at the ${edge[direction]} end yet`
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Scroll the container by pixels after dispatching a wheel event over it. Returns false
+ * when the page cancelled the wheel event.
+ */
+function scrollBy(
+  container: Element,
+  direction: Direction,
+  pixels: number
+): boolean {
+  const vertical = direction === 'up' || direction === 'down';
+  const sign = direction === 'up' || direction === 'left' ? -1 : 1;
+  const delta = {
+    deltaX: vertical ? 0 : sign * pixels,
+    deltaY: vertical ? sign * pixels : 0,
+  };
+
+  const isDocument = container === scrollingElement();
+  const rect = isDocument
+    ? { left: 0, top: 0, width: window.innerWidth, height: window.innerHeight }
+    : container.getBoundingClientRect();
+  const point = {
+    x: Math.min(Math.max(rect.left + rect.width / 2, 0), window.innerWidth - 1),
+    y: Math.min(
+      Math.max(rect.top + rect.height / 2, 0),
+      window.innerHeight - 1
+    ),
+  };
+  // The wheel goes to what is under the pointer, as long as it scrolls the container
+  const hit = deepElementFromPoint(document, point);
+  const wheelTarget =
+    hit && (isDocument || isInsideScope(container, hit))
+      ? hit
+      : isDocument
+        ? document.body
+        : container;
+  if (!dispatchWheel(wheelTarget, point, delta)) return false;
+
+  container.scrollBy({
+    left: delta.deltaX,
+    top: delta.deltaY,
+    behavior: 'instant',
+  });
+  return true;
+}
+
+function pageSize(container: Element, direction: Direction): number {
+  const vertical = direction === 'up' || direction === 'down';
+  return Math.round(
+    (vertical ? container.clientHeight : container.clientWidth) * kPageFraction
+  );
+}
+
+// The innermost element with the text: whitespace between tags is skipped, as
+// its parent is the container of the text rather than the text itself
+function findVisibleText(root: Element, text: string): Element | undefined {
+  const wanted = normalizeWhiteSpace(text).toLowerCase();
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const data = normalizeWhiteSpace(node.nodeValue || '');
+    if (!data || !data.toLowerCase().includes(wanted)) continue;
+    const element = node.parentElement;
+    if (element && isElementVisible(element)) return element;
+  }
+}
+
+function findVisibleSelector(selector: string): Element | undefined {
+  let element: Element | null;
+  try {
+    element = querySelectorDeep(selector);
+  } catch (error) {
+    throw new Error(
+      `Invalid CSS selector "${selector}": ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+  return element && isElementVisible(element) ? element : undefined;
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function scrollUntil(
+  container: Element,
+  direction: Direction,
+  payload: ScrollMessage['payload']
+): Promise<string> {
+  const { untilText, untilSelector, maxScrolls = 20, timeout = 2000 } = payload;
+  const what = untilText
+    ? `text "${untilText}"`
+    : `selector "${untilSelector}"`;
+  const find = () =>
+    untilText
+      ? findVisibleText(
+          container === scrollingElement() ? document.body : container,
+          untilText
+        )
+      : findVisibleSelector(untilSelector || '');
+
+  let scrolls = 0;
+  while (true) {
+    const found = find();
+    if (found) {
+      found.scrollIntoView({ block: 'center', behavior: 'instant' });
+      generateAriaTree(document.body, { mode: 'ai' });
+      return [
+        `Found ${what} after ${scrolls} scroll${scrolls === 1 ? '' : 's'}: ${describeTarget(found)}`,
+        describePosition(container, direction),
+      ].join('\n');
+    }
+    if (scrolls >= maxScrolls) break;
+
+    if (atEnd(container, direction)) {
+      // Give infinite lists time to load more content before giving up
+      const size = container.scrollHeight + container.scrollWidth;
+      const deadline = Date.now() + timeout;
+      while (
+        Date.now() < deadline &&
+        container.scrollHeight + container.scrollWidth === size &&
+        !find()
+      )
+        await delay(100);
+      if (find()) continue;
+      if (atEnd(container, direction)) break;
+    }
+
+    if (!scrollBy(container, direction, pageSize(container, direction)))
+      throw new Error(
+        `The page cancelled the wheel event on ${describeTarget(container)}, so it could not be scrolled until ${what} appears`
+      );
+    scrolls++;
+    await delay(100);
+  }
+
+  throw new Error(
+    `${what[0].toUpperCase()}${what.slice(1)} did not appear after ${scrolls} scroll${scrolls === 1 ? '' : 's'}\n${describePosition(container, direction)}`
+  );
+}
+
+async function executeScroll(message: ScrollMessage): Promise<any> {
+  const {
+    ref,
+    selector,
+    direction,
+    amount = 1,
+    unit = 'pages',
+    block = 'center',
+    inline = 'nearest',
+    untilText,
+    untilSelector,
+  } = message.payload;
+
+  const target = ref
+    ? resolveRefOrThrow(ref).element
+    : selector
+      ? resolveSingleTargetElement({ selector })
+      : undefined;
+
+  if (untilText || untilSelector) {
+    const scrollDirection = direction ?? 'down';
+    const vertical = scrollDirection === 'up' || scrollDirection === 'down';
+    const container = target
+      ? scrollContainerFor(target, vertical)
+      : scrollingElement();
+    return await scrollUntil(container, scrollDirection, message.payload);
+  }
+
+  if (direction) {
+    const vertical = direction === 'up' || direction === 'down';
+    const container = target
+      ? scrollContainerFor(target, vertical)
+      : scrollingElement();
+    const pixels =
+      unit === 'pages'
+        ? Math.round(pageSize(container, direction) * amount)
+        : amount;
+    const howFar =
+      unit === 'pages'
+        ? `${amount} page${amount === 1 ? '' : 's'} (${pixels}px)`
+        : `${pixels}px`;
+    const scrolled = scrollBy(container, direction, pixels);
+    return [
+      scrolled
+        ? `Scrolled ${describeTarget(container)} ${direction} by ${howFar}`
+        : `The page cancelled the wheel event on ${describeTarget(container)}, so it was left to handle the scroll itself`,
+      describePosition(container, direction),
+    ].join('\n');
+  }
+
+  if (!target)
+    throw new Error(
+      'Specify ref or selector to scroll an element into view, direction to scroll by, or untilText/untilSelector'
+    );
+
+  target.scrollIntoView({ block, inline, behavior: 'instant' });
+  return [
+    `Scrolled ${describeTarget(target)} into view (block: ${block}, inline: ${inline})`,
+    describePosition(
+      scrollContainerFor(parentElementOrShadowHost(target) ?? target, true)
+    ),
+  ].join('\n');
+}
+
+export const scrollTool: ToolHandler<ScrollMessage> = {
+  definition: scrollDefinition,
+  messageSchema: ScrollMessageSchema,
+  execute: executeScroll,
+};
@@ -2,8 +2,9 @@ import { z } from 'zod';
 import type { ToolHandler } from './base.js';
 import {
   baseToolSchema,
+  describeRefResolution,
   ensureInstanceOf,
-  getElementByRefOrThrow,
+  resolveRefOrThrow,
 } from './common.js';
 
 // Core tool schema without sessionId (which is added by MCP server for routing)
@@ -30,9 +31,9 @@ const SelectOptionMessageSchema = z.object({
 type SelectOptionMessage = z.infer<typeof SelectOptionMessageSchema>;
 
 async function executeSelectOption(message: SelectOptionMessage): Promise<any> {
-  const rawElement = getElementByRefOrThrow(message.payload.ref);
+  const resolved = resolveRefOrThrow(message.payload.ref);
   const element = ensureInstanceOf<HTMLSelectElement>(
-    rawElement,
+    resolved.element,
     [HTMLSelectElement],
     `Element with ref "${message.payload.ref}" is not a select element`
   );
@@ -67,7 +68,7 @@ async function executeSelectOption(message: SelectOptionMessage): Promise<any> {
   // Dispatch change event
   element.dispatchEvent(new Event('change', { bubbles: true }));
 
-  return `Successfully selected options [${selectedValues.join(', ')}] in element with ref "${message.payload.ref}"`;
+  return `Successfully selected options [${selectedValues.join(', ')}] in element with ref "${message.payload.ref}"${describeRefResolution(message.payload.ref, resolved)}`;
 }
 
 export const selectOptionTool: ToolHandler<SelectOptionMessage> = {
@@ -1,6 +1,10 @@
 import { z } from 'zod';
+import { querySelectorAllDeep } from '../deepSelector.js';
 import type { ToolHandler } from './base.js';
 
+// Room for the "[Snapshot ID: s12]" header line within max_chars
+const SNAPSHOT_HEADER_ALLOWANCE = 32;
+
 // Core tool schema without sessionId (which is added by MCP server for routing)
 const takeSnapshotSchema = z.object({
   mode: z
@@ -23,7 +27,7 @@ const takeSnapshotSchema = z.object({
     .string()
     .optional()
     .describe(
-      'CSS selector to capture multiple elements (e.g., ".button", "div[data-test]")'
+      'CSS selector to capture multiple elements (e.g., ".button", "div[data-test]"). Use ">>>" to pierce shadow roots (e.g., "app-dialog >>> form")'
     ),
   boundingBox: z
     .object({
@@ -40,7 +44,39 @@ const takeSnapshotSchema = z.object({
     .number()
     .default(4096)
     .describe(
-      'Maximum size in characters for the snapshot (uses breadth-first expansion)'
+      'Maximum size in characters for the snapshot (uses breadth-first expansion; omitted children are summarized with refs to expand them)'
+    ),
+  format: z
+    .enum(['text', 'json'])
+    .optional()
+    .default('text')
+    .describe(
+      "Output format: 'text' for the YAML-like snapshot, 'json' for the aria node tree (role, name, ref, states, props, box, React info) for programmatic use. max_chars, viewport and cursor only apply to 'text'"
+    ),
+  viewport: z
+    .enum(['only', 'mark'])
+    .optional()
+    .describe(
+      "Viewport awareness: 'only' renders just the elements that intersect the viewport, 'mark' tags elements outside of it as [offscreen above], [offscreen below], etc. Both start with the page scroll position and the scroll containers"
+    ),
+  collapseRepeats: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe(
+      'Summarize runs of structurally identical siblings (e.g. product cards, table rows) after the first few, listing the refs of the elided items. Set to false to list every item'
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'Continuation cursor from a truncated snapshot (e.g., "s3:1"). Returns the next page of that same snapshot; refs, selector, boundingBox and baseline are ignored'
+    ),
+  baseline: z
+    .string()
+    .optional()
+    .describe(
+      'Snapshot ID from a previous take_snapshot call (e.g., "s3"). When set, returns only the elements added, removed, renamed or changed state since that snapshot'
     ),
 });
 
@@ -53,6 +89,7 @@ Returns a text representation showing:
 - Element roles, labels, and ARIA attributes
 - Hierarchical structure with proper indentation
 - React component information (when available)
+- Contents of same-origin iframes, with frame-scoped refs (e.g., [ref=f1e12])
 
 Example output:
 \`\`\`
@@ -64,7 +101,24 @@ form [ref=e2]
 link "Forgot Password?" [ref=e5]
 \`\`\`
 
-IMPORTANT: If snapshot is truncated due to size limits, DO NOT assume missing elements don't exist - they may have been omitted. Use follow-up calls with 'selector' or 'refs' parameters to get specific elements.`,
+Form controls list their live state as props, so there is no need to call get_element_info to check what was typed:
+\`\`\`
+textbox "Email" [ref=e3]:
+  - /value: jane@example
+  - /placeholder: you@example.com
+  - /validationMessage: Please enter an email address.
+\`\`\`
+Password values are replaced with a fixed mask that does not reveal their length. /invalid is shown when aria-invalid is set.
+
+Use viewport="mark" (or "only") before interacting on long pages: elements below the fold are tagged [offscreen below], meaning you need to scroll first.
+
+Long runs of identical siblings are summarized after the first few, e.g. "- … 87 more listitem like above, refs e40–e126"; the listed refs can be passed to take_snapshot(refs=[...]) or any other tool.
+
+Use format="json" to get the tree as structured data ({ snapshots: [{ snapshotId, root }] }) instead of text.
+
+Every snapshot starts with a snapshot ID (e.g., [Snapshot ID: s3]). After an interaction, call take_snapshot with baseline="s3" to get only what changed instead of re-reading the whole tree.
+
+IMPORTANT: If snapshot is truncated due to size limits, DO NOT assume missing elements don't exist - they may have been omitted. Omitted children are summarized in place, e.g. "- … 12 more children [expand=e7]"; call take_snapshot(refs=["e7"]) to expand them, or use 'selector' to get specific elements. Truncated snapshots end with a cursor (e.g., [CURSOR: s3:1]); call take_snapshot(cursor="s3:1") to page through the rest of the same snapshot with unchanged refs.`,
   inputSchema: takeSnapshotSchema.shape, // Will have sessionId added by MCP server
 };
 
@@ -81,6 +135,19 @@ async function executeTakeSnapshot(message: TakeSnapshotMessage): Promise<any> {
     throw new Error('A11yCap not available');
   }
 
+  // Continue a truncated snapshot from its stored tree
+  if (message.payload.cursor) {
+    if (message.payload.format === 'json') {
+      throw new Error('cursor can only be used with the text format');
+    }
+    const snapshot = window.A11yCap.continueSnapshot(message.payload.cursor, {
+      max_chars:
+        (message.payload.max_chars || 4096) - SNAPSHOT_HEADER_ALLOWANCE,
+    });
+    const snapshotId = message.payload.cursor.split(':')[0];
+    return `[Snapshot ID: ${snapshotId}]\n${snapshot}`;
+  }
+
   let elements: Element[] = [];
 
   if (message.payload.refs && message.payload.refs.length > 0) {
@@ -89,9 +156,9 @@ async function executeTakeSnapshot(message: TakeSnapshotMessage): Promise<any> {
     const missingRefs: string[] = [];
 
     for (const ref of message.payload.refs) {
-      const element = window.A11yCap.findElementByRef(ref);
-      if (element) {
-        foundElements.push(element);
+      const resolved = window.A11yCap.resolveElementByRef(ref);
+      if (resolved) {
+        foundElements.push(resolved.element);
       } else {
         missingRefs.push(ref);
       }
@@ -111,8 +178,7 @@ async function executeTakeSnapshot(message: TakeSnapshotMessage): Promise<any> {
   } else if (message.payload.selector) {
     // Multiple elements by CSS selector
     try {
-      const nodeList = document.querySelectorAll(message.payload.selector);
-      elements = Array.from(nodeList);
+      elements = querySelectorAllDeep(message.payload.selector);
       if (elements.length === 0) {
         throw new Error(
           `No elements found matching selector "${message.payload.selector}"`
@@ -157,10 +223,50 @@ async function executeTakeSnapshot(message: TakeSnapshotMessage): Promise<any> {
     elements = [document.body];
   }
 
+  if (message.payload.baseline && elements.length !== 1) {
+    throw new Error(
+      `baseline can only be used with a single target element, but ${elements.length} elements were found`
+    );
+  }
+
+  // Structured output for tooling that post-processes snapshots
+  if (message.payload.format === 'json') {
+    const snapshots = [];
+    for (const element of elements) {
+      snapshots.push(
+        await window.A11yCap.snapshotJSON(element, {
+          mode: message.payload.mode,
+          enableReact: message.payload.enableReact,
+          baseline: message.payload.baseline,
+        })
+      );
+    }
+    return { snapshots };
+  }
+
+  // Report only the changes relative to a stored snapshot
+  if (message.payload.baseline) {
+    return await window.A11yCap.snapshotForAI(elements[0], {
+      enableReact: message.payload.enableReact,
+      baseline: message.payload.baseline,
+    });
+  }
+
+  const maxChars = message.payload.max_chars || 4096;
+
+  // A single element is rendered within the budget, summarizing omitted children
+  if (elements.length === 1) {
+    const snapshot = await window.A11yCap.snapshotForAI(elements[0], {
+      ...message.payload,
+      max_chars: maxChars - SNAPSHOT_HEADER_ALLOWANCE,
+    });
+    const snapshotId = window.A11yCap.getLastSnapshotId();
+    return `[Snapshot ID: ${snapshotId}]\n${snapshot}`;
+  }
+
   // Generate snapshots for all elements and combine with size limit
   const snapshots: string[] = [];
   let totalLength = 0;
-  const maxChars = message.payload.max_chars || 4096;
 
   for (let i = 0; i < elements.length; i++) {
     const element = elements[i];
@@ -169,6 +275,7 @@ async function executeTakeSnapshot(message: TakeSnapshotMessage): Promise<any> {
         ...message.payload,
         max_chars: undefined, // Remove individual limit, we'll apply global limit
       });
+      const snapshotId = window.A11yCap.getLastSnapshotId();
 
       let headerLabel = '';
       if (message.payload.refs?.[i]) {
@@ -184,8 +291,8 @@ async function executeTakeSnapshot(message: TakeSnapshotMessage): Promise<any> {
 
       const snapshotWithHeader =
         elements.length > 1
-          ? `Element ${i + 1} (${headerLabel}):\n${snapshot}\n`
-          : snapshot;
+          ? `Element ${i + 1} (${headerLabel}) [Snapshot ID: ${snapshotId}]:\n${snapshot}\n`
+          : `[Snapshot ID: ${snapshotId}]\n${snapshot}`;
 
       // Check if adding this snapshot would exceed the limit
       const newLength = totalLength + snapshotWithHeader.length;
@@ -1,9 +1,13 @@
+import { normalizeWhiteSpace } from '@isomorphic/stringUtils';
 import { z } from 'zod';
+import { editContent, editingHost, pressKey } from '../keyboardActions.js';
+import type { ResolvedRef } from '../refRegistry.js';
 import type { ToolHandler } from './base.js';
 import {
   baseToolSchema,
+  describeRefResolution,
   ensureInstanceOf,
-  getElementByRefOrThrow,
+  resolveRefOrThrow,
 } from './common.js';
 
 // Core tool schema without sessionId (which is added by MCP server for routing)
@@ -25,7 +29,9 @@ const typeTextSchema = baseToolSchema.extend({
 
 export const typeTextDefinition = {
   name: 'type_text',
-  description: 'Type text into an editable element',
+  description: `Type text into an editable element, replacing its content: an input, a textarea or a contenteditable element such as a ProseMirror, Lexical, Slate or CodeMirror editor.
+
+In contenteditable elements the text is inserted at a selection through beforeinput and input events (insertText, and insertParagraph for line breaks), so editor frameworks apply the edit through their own pipeline. The resulting text of the editor is reported.`,
   inputSchema: typeTextSchema.shape, // Will have sessionId added by MCP server
 };
 
@@ -37,12 +43,82 @@ const TypeTextMessageSchema = z.object({
 
 type TypeTextMessage = z.infer<typeof TypeTextMessageSchema>;
 
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * The editing host to type into: the element's own, or the first one inside it, so that
+ * refs to the wrapper of an editor work too
+ */
+function findEditingHost(element: Element): HTMLElement | undefined {
+  const host = editingHost(element);
+  if (host) return host;
+  const inner = element.querySelector(
+    '[contenteditable]:not([contenteditable="false"])'
+  );
+  return inner ? editingHost(inner) : undefined;
+}
+
+async function typeIntoEditable(
+  host: HTMLElement,
+  message: TypeTextMessage,
+  resolved: ResolvedRef
+): Promise<string> {
+  const { ref, text, slowly, submit } = message.payload;
+  host.focus();
+
+  // Select the current content so that typing replaces it, as for inputs
+  const doc = host.ownerDocument;
+  const range = doc.createRange();
+  range.selectNodeContents(host);
+  const selection = doc.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+  // Editors sync their selection on selectionchange, which fires asynchronously
+  await delay(10);
+
+  if (!text) {
+    editContent(host, 'deleteContentBackward');
+  } else if (slowly) {
+    for (const char of text) {
+      pressKey(host, char === '\n' ? 'Enter' : char, { defaultActions: true });
+      await delay(10);
+    }
+  } else {
+    text.split('\n').forEach((line, index) => {
+      if (index) editContent(host, 'insertParagraph');
+      if (line) editContent(host, 'insertText', line);
+    });
+  }
+
+  if (submit) pressKey(host, 'Enter');
+
+  // Give editors that render asynchronously (React based ones) time to update the DOM
+  await delay(50);
+  const result = host.innerText ?? host.textContent ?? '';
+  const lines = [
+    `Successfully typed "${text}" into contenteditable element with ref "${ref}"${describeRefResolution(ref, resolved)}`,
+    `Text is now: ${JSON.stringify(result)}`,
+  ];
+  const typed = text.split('\n').map(normalizeWhiteSpace).filter(Boolean);
+  const current = normalizeWhiteSpace(result);
+  if (typed.some((line) => !current.includes(line)))
+    lines.push(
+      'Warning: the text does not contain what was typed; the editor may have rejected or transformed the input'
+    );
+  return lines.join('\n');
+}
+
 async function executeTypeText(message: TypeTextMessage): Promise<any> {
-  const rawElement = getElementByRefOrThrow(message.payload.ref);
+  const resolved = resolveRefOrThrow(message.payload.ref);
+  const host = findEditingHost(resolved.element);
+  if (host) return await typeIntoEditable(host, message, resolved);
+
   const element = ensureInstanceOf<HTMLInputElement | HTMLTextAreaElement>(
-    rawElement,
+    resolved.element,
     [HTMLInputElement, HTMLTextAreaElement],
-    `Element with ref "${message.payload.ref}" is not a text input element`
+    `Element with ref "${message.payload.ref}" is not a text input element or contenteditable`
   );
 
   const text = message.payload.text;
@@ -97,7 +173,7 @@ async function executeTypeText(message: TypeTextMessage): Promise<any> {
     }
   }
 
-  return `Successfully typed "${text}" into element with ref "${message.payload.ref}"`;
+  return `Successfully typed "${text}" into element with ref "${message.payload.ref}"${describeRefResolution(message.payload.ref, resolved)}`;
 }
 
 export const typeTextTool: ToolHandler<TypeTextMessage> = {
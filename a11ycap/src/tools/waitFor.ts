@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { querySelectorDeep } from '../deepSelector.js';
 import type { ToolHandler } from './base.js';
 
 // Core tool schema without sessionId (which is added by MCP server for routing)
@@ -8,11 +9,15 @@ const waitForSchema = z.object({
   selector: z
     .string()
     .optional()
-    .describe('CSS selector to wait for (element to appear)'),
+    .describe(
+      'CSS selector to wait for (element to appear). Use ">>>" to pierce shadow roots'
+    ),
   selectorGone: z
     .string()
     .optional()
-    .describe('CSS selector to wait for to disappear'),
+    .describe(
+      'CSS selector to wait for to disappear. Use ">>>" to pierce shadow roots'
+    ),
   captureSnapshot: z
     .boolean()
     .optional()
@@ -79,7 +84,7 @@ async function executeWaitFor(message: WaitForMessage): Promise<any> {
 
     while (Date.now() - startTime < timeout) {
       try {
-        const element = document.querySelector(selector);
+        const element = querySelectorDeep(selector);
         if (element) {
           return `Element matching selector "${selector}" appeared on page`;
         }
@@ -101,7 +106,7 @@ async function executeWaitFor(message: WaitForMessage): Promise<any> {
 
     while (Date.now() - startTime < timeout) {
       try {
-        const element = document.querySelector(selectorGone);
+        const element = querySelectorDeep(selectorGone);
         if (!element) {
           return `Element matching selector "${selectorGone}" disappeared from page`;
         }
@@ -0,0 +1,96 @@
+/**
+ * Scroll state of the page and of scroll containers, reported above viewport-aware
+ * snapshots so the agent knows when it has to scroll before interacting.
+ */
+
+import type { AriaNode, AriaSnapshot } from './ariaSnapshot';
+import {
+  elementSafeTagName,
+  getElementComputedStyle,
+  parentElementOrShadowHost,
+} from './domUtils';
+
+// Keep the header short on pages with many nested scrollers
+const MAX_SCROLL_CONTAINERS = 10;
+
+const kScrollableOverflow = ['auto', 'scroll', 'overlay'];
+
+function isScrollContainer(
+  element: Element,
+  style: CSSStyleDeclaration | undefined = getElementComputedStyle(element)
+): boolean {
+  if (!style) return false;
+  // The document scroller is reported as the page scroll position
+  if (element === element.ownerDocument.scrollingElement) return false;
+  if (element.nodeName === 'HTML' || element.nodeName === 'BODY') return false;
+  const scrollsY =
+    element.scrollHeight > element.clientHeight &&
+    kScrollableOverflow.includes(style.overflowY);
+  const scrollsX =
+    element.scrollWidth > element.clientWidth &&
+    kScrollableOverflow.includes(style.overflowX);
+  return scrollsY || scrollsX;
+}
+
+function describeScrollContainer(element: Element, node?: AriaNode): string {
+  let label: string;
+  if (node && node.role !== 'fragment') {
+    label = node.role;
+    if (node.name) label += ` ${JSON.stringify(node.name)}`;
+    if (node.ref) label += ` [ref=${node.ref}]`;
+  } else {
+    label = elementSafeTagName(element).toLowerCase();
+    if (element.id) label += `#${element.id}`;
+  }
+  const x = Math.round(element.scrollLeft);
+  const y = Math.round(element.scrollTop);
+  return `  - ${label}: scrolled to x=${x}, y=${y} (content ${element.scrollWidth}x${element.scrollHeight}, visible ${element.clientWidth}x${element.clientHeight})`;
+}
+
+/**
+ * Describe the page scroll position and the scroll containers that enclose or are
+ * part of the snapshot, outermost first
+ */
+export function renderViewportHeader(
+  rootElement: Element,
+  snapshot: AriaSnapshot
+): string {
+  const doc = rootElement.ownerDocument;
+  const view = doc.defaultView ?? window;
+  const page = doc.scrollingElement ?? doc.documentElement;
+  const lines = [
+    `Viewport: ${view.innerWidth}x${view.innerHeight}, page scrolled to x=${Math.round(view.scrollX)}, y=${Math.round(view.scrollY)} (page ${page.scrollWidth}x${page.scrollHeight})`,
+  ];
+
+  const containers: string[] = [];
+  const ancestors: Element[] = [];
+  for (
+    let ancestor = parentElementOrShadowHost(rootElement);
+    ancestor;
+    ancestor = parentElementOrShadowHost(ancestor)
+  ) {
+    if (isScrollContainer(ancestor)) ancestors.unshift(ancestor);
+  }
+  for (const ancestor of ancestors)
+    containers.push(describeScrollContainer(ancestor));
+
+  const visit = (node: AriaNode) => {
+    if (isScrollContainer(node.element, node.box.style))
+      containers.push(describeScrollContainer(node.element, node));
+    for (const child of node.children) {
+      if (typeof child !== 'string') visit(child);
+    }
+  };
+  visit(snapshot.root);
+
+  if (containers.length) {
+    lines.push('Scroll containers:');
+    lines.push(...containers.slice(0, MAX_SCROLL_CONTAINERS));
+    if (containers.length > MAX_SCROLL_CONTAINERS)
+      lines.push(
+        `  - … ${containers.length - MAX_SCROLL_CONTAINERS} more scroll containers`
+      );
+  }
+
+  return lines.join('\n');
+}
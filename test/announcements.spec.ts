@@ -0,0 +1,134 @@
+import { expect, test } from '@playwright/test';
+import { runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Live Region Announcements', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const status = document.createElement('div');
+      status.id = 'save-status';
+      status.setAttribute('role', 'status');
+      status.setAttribute('aria-label', 'Save status');
+      document.body.appendChild(status);
+
+      const quiet = document.createElement('div');
+      quiet.id = 'quiet-region';
+      quiet.setAttribute('aria-live', 'off');
+      document.body.appendChild(quiet);
+
+      window.A11yCap.clearEvents();
+    });
+  });
+
+  test('should record status updates', async ({ page }) => {
+    await page.evaluate(() => {
+      document.getElementById('save-status')!.textContent =
+        'Saved successfully';
+    });
+
+    const result = await runTool(page, 'get_announcements');
+
+    console.log('Announcements:', result);
+
+    expect(result).toContain('Announcements (1 entries)');
+    expect(result).toMatch(
+      /POLITE\s+"Saved successfully" \(status "Save status"/
+    );
+  });
+
+  test('should record inserted alerts as assertive', async ({ page }) => {
+    await page.evaluate(() => {
+      const alert = document.createElement('div');
+      alert.setAttribute('role', 'alert');
+      alert.textContent = 'Email is required';
+      document.body.appendChild(alert);
+    });
+
+    const result = await runTool(page, 'get_announcements', {
+      politeness: 'assertive',
+    });
+
+    expect(result).toMatch(/ASSERTIVE "Email is required" \(alert\)/);
+  });
+
+  test('should not announce content inserted with its polite region', async ({
+    page,
+  }) => {
+    await page.evaluate(() => {
+      const toast = document.createElement('div');
+      toast.setAttribute('aria-live', 'polite');
+      toast.textContent = 'Toast with content';
+      document.body.appendChild(toast);
+
+      document.getElementById('quiet-region')!.textContent = 'Silent update';
+    });
+
+    const result = await runTool(page, 'get_announcements');
+
+    expect(result).toBe('No announcements found');
+  });
+
+  test('should keep announcements out of user interactions', async ({
+    page,
+  }) => {
+    await page.evaluate(() => {
+      window.A11yCap.startRecording();
+      const button = document.createElement('button');
+      button.id = 'save-button';
+      button.textContent = 'Save';
+      button.addEventListener('click', () => {
+        document.getElementById('save-status')!.textContent =
+          'Saved successfully';
+      });
+      document.body.appendChild(button);
+      button.click();
+    });
+
+    const interactions = await runTool(page, 'get_user_interactions');
+
+    expect(interactions).toMatch(
+      /^User Interactions \(1 events\):\n.* Click on button#save-button/
+    );
+    expect(await runTool(page, 'get_announcements')).toContain(
+      'Saved successfully'
+    );
+  });
+
+  test('should record live regions inside open shadow roots', async ({
+    page,
+  }) => {
+    await page.evaluate(async () => {
+      const host = document.createElement('div');
+      host.attachShadow({ mode: 'open' }).innerHTML =
+        '<div role="status" aria-label="Cart status"></div>';
+      document.body.appendChild(host);
+
+      // Upgraded after insertion: the shadow root appears without a DOM mutation
+      const toast = document.createElement('x-toast');
+      document.body.appendChild(toast);
+      customElements.define(
+        'x-toast',
+        class extends HTMLElement {
+          constructor() {
+            super();
+            this.attachShadow({ mode: 'open' }).innerHTML =
+              '<div aria-live="assertive"></div>';
+          }
+        }
+      );
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      host.shadowRoot!.querySelector('[role="status"]')!.textContent =
+        'Added to cart';
+      toast.shadowRoot!.querySelector('[aria-live]')!.textContent =
+        'Payment failed';
+    });
+
+    const result = await runTool(page, 'get_announcements');
+
+    expect(result).toContain('Announcements (2 entries)');
+    expect(result).toMatch(/POLITE\s+"Added to cart" \(status "Cart status"/);
+    expect(result).toMatch(/ASSERTIVE "Payment failed" \(div\)/);
+  });
+});
@@ -0,0 +1,108 @@
+import { expect, test } from '@playwright/test';
+import { runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('ARIA Relationships Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'relationships-section';
+      section.innerHTML = `
+        <label for="city-input">City</label>
+        <input id="city-input" role="combobox" aria-expanded="false"
+          aria-controls="city-list" aria-activedescendant="city-option-9">
+        <ul id="city-list" role="listbox" hidden>
+          <li role="option" id="city-option-1">Paris</li>
+        </ul>
+        <span id="shared-label">First</span>
+        <span id="shared-label">Second</span>
+        <button aria-labelledby="shared-label">Save</button>
+        <label for="not-a-control">Notes</label>
+        <div id="not-a-control">Notes go here</div>
+      `;
+      document.body.appendChild(section);
+    });
+  });
+
+  test('should resolve relationships with refs on both ends', async ({
+    page,
+  }) => {
+    const result = await runTool(page, 'get_aria_relationships', {
+      selector: '#relationships-section',
+    });
+
+    console.log('Relationships:', result);
+
+    expect(result).toMatch(
+      /label \[ref=e\d+\]\n {2}for → combobox "City" \[ref=e\d+\]/
+    );
+    expect(result).toMatch(
+      /combobox "City" \[ref=e\d+\]\n {2}aria-controls → listbox .*\(hidden\)\n {2}aria-activedescendant → "city-option-9" \(no such id\)/
+    );
+  });
+
+  test('should report dangling, duplicate and unlabelable ids', async ({
+    page,
+  }) => {
+    const result = await runTool(page, 'get_aria_relationships', {
+      selector: '#relationships-section',
+    });
+
+    expect(result).toMatch(
+      /- Dangling id: combobox "City" \[ref=e\d+\] aria-activedescendant="city-option-9" matches no element/
+    );
+    expect(result).toMatch(
+      /- Duplicate id: button "First" \[ref=e\d+\] aria-labelledby="shared-label" matches 2 elements; only the first one is used/
+    );
+    expect(result).toMatch(
+      /- Not labelable: label .*for="not-a-control" points to .*, which a <label> cannot label/
+    );
+  });
+
+  test('should list hidden targets separately', async ({ page }) => {
+    const result = await runTool(page, 'get_aria_relationships', {
+      selector: '#relationships-section',
+    });
+
+    expect(result).toContain('Pointing to hidden elements (1):');
+    expect(result).toMatch(
+      /aria-controls="city-list" points to listbox .*\(expected while collapsed\)/
+    );
+  });
+
+  test('should limit the graph to the selected elements', async ({ page }) => {
+    const result = await runTool(page, 'get_aria_relationships', {
+      selector: '#city-list',
+    });
+
+    expect(result).toContain('ARIA relationships (1):');
+    expect(result).toContain('aria-controls → listbox');
+    expect(result).not.toContain('shared-label');
+  });
+
+  test('should resolve ids that are not valid CSS identifiers', async ({
+    page,
+  }) => {
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'odd-ids-section';
+      section.innerHTML = `
+        <span id="1st:step">Shipping</span>
+        <span id='say"hi"'>Greeting</span>
+        <button aria-labelledby='1st:step' aria-describedby='say"hi"'>Next</button>
+      `;
+      document.body.appendChild(section);
+    });
+
+    const result = await runTool(page, 'get_aria_relationships', {
+      selector: '#odd-ids-section',
+    });
+
+    expect(result).toMatch(
+      /button "Shipping" \[ref=e\d+\]\n {2}aria-labelledby → .*\n {2}aria-describedby → /
+    );
+    expect(result).not.toContain('no such id');
+    expect(result).toContain('No broken relationships found');
+  });
+});
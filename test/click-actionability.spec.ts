@@ -0,0 +1,128 @@
+import { expect, test } from '@playwright/test';
+import { getRef, runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Click Actionability', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'click-section';
+      section.innerHTML = `
+        <button id="menu-trigger">Open menu</button>
+        <button id="disabled-button" disabled>Disabled</button>
+        <div style="position: relative">
+          <button id="covered-button">Covered</button>
+          <div id="backdrop" class="modal-backdrop"
+            style="position: absolute; inset: 0; background: rgba(0, 0, 0, 0.2)"></div>
+        </div>
+        <button id="delayed-button" disabled>Delayed</button>
+        <div style="height: 3000px"></div>
+        <button id="far-button">Far away</button>
+      `;
+      document.body.appendChild(section);
+
+      (window as any).clickEvents = [];
+      const trigger = document.getElementById('menu-trigger')!;
+      for (const type of [
+        'pointerdown',
+        'mousedown',
+        'focus',
+        'pointerup',
+        'mouseup',
+        'click',
+      ]) {
+        trigger.addEventListener(type, () =>
+          (window as any).clickEvents.push(type)
+        );
+      }
+    });
+  });
+
+  test('should dispatch the full pointer sequence', async ({ page }) => {
+    const ref = await getRef(page, '#menu-trigger');
+    const result = await runTool(page, 'click_element', {
+      element: 'menu-trigger',
+      ref,
+      timeout: 1000,
+    });
+
+    expect(result).toContain('Successfully clicked element');
+    expect(await page.evaluate(() => (window as any).clickEvents)).toEqual([
+      'pointerdown',
+      'mousedown',
+      'focus',
+      'pointerup',
+      'mouseup',
+      'click',
+    ]);
+    expect(await page.evaluate(() => document.activeElement?.id)).toBe(
+      'menu-trigger'
+    );
+  });
+
+  test('should name the failed check for disabled elements', async ({
+    page,
+  }) => {
+    const ref = await getRef(page, '#disabled-button');
+    const result = await runTool(page, 'click_element', {
+      element: 'disabled-button',
+      ref,
+      timeout: 300,
+    });
+
+    expect(result).toMatch(
+      /Error: Failed to click element with ref "e\d+": Element is not actionable after 300ms: "enabled" check failed, element is disabled/
+    );
+  });
+
+  test('should report the element intercepting the click', async ({ page }) => {
+    const ref = await getRef(page, '#covered-button');
+    const result = await runTool(page, 'click_element', {
+      element: 'covered-button',
+      ref,
+      timeout: 300,
+    });
+
+    expect(result).toContain('"receives events" check failed');
+    const backdropRef = await getRef(page, '#backdrop');
+    expect(result).toContain(`div [ref=${backdropRef}] intercepts`);
+  });
+
+  test('should wait for the element to become enabled', async ({ page }) => {
+    await page.evaluate(() => {
+      setTimeout(() => {
+        document.getElementById('delayed-button')!.removeAttribute('disabled');
+      }, 300);
+    });
+
+    const ref = await getRef(page, '#delayed-button');
+    const result = await runTool(page, 'click_element', {
+      element: 'delayed-button',
+      ref,
+      timeout: 2000,
+    });
+
+    expect(result).toContain('Successfully clicked element');
+  });
+
+  test('should scroll the element into view before clicking', async ({
+    page,
+  }) => {
+    const ref = await getRef(page, '#far-button');
+    const result = await runTool(page, 'click_element', {
+      element: 'far-button',
+      ref,
+      timeout: 1000,
+    });
+
+    expect(result).toContain('Successfully clicked element');
+    const inViewport = await page.evaluate(() => {
+      const rect = document
+        .getElementById('far-button')!
+        .getBoundingClientRect();
+      return rect.top >= 0 && rect.bottom <= window.innerHeight;
+    });
+    expect(inViewport).toBe(true);
+  });
+});
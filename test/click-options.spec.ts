@@ -0,0 +1,181 @@
+import { expect, type Page, test } from '@playwright/test';
+import { getRef, runTool, setupA11yCapTest } from './test-utils';
+
+type ClickLogEntry = {
+  type: string;
+  target: string;
+  button: number;
+  detail: number;
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  offsetX: number;
+};
+
+test.describe('Click Targeting and Options', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'click-options-section';
+      section.innerHTML = `
+        <button id="save">Save</button>
+        <button id="save-draft">Save draft</button>
+        <div id="row" tabindex="0"
+          style="position: fixed; top: 100px; left: 100px; width: 200px; height: 40px">
+          Row
+        </div>
+      `;
+      document.body.appendChild(section);
+
+      (window as any).clickLog = [];
+      const log = (event: MouseEvent) =>
+        (window as any).clickLog.push({
+          type: event.type,
+          target: (event.target as Element).id,
+          button: event.button,
+          detail: event.detail,
+          shiftKey: event.shiftKey,
+          ctrlKey: event.ctrlKey,
+          offsetX: Math.round(event.clientX - 100),
+        });
+      for (const type of ['click', 'dblclick', 'contextmenu', 'auxclick'])
+        section.addEventListener(type, log as EventListener);
+    });
+  });
+
+  async function clickLog(page: Page): Promise<ClickLogEntry[]> {
+    return await page.evaluate(() => (window as any).clickLog);
+  }
+
+  test('should click by role and accessible name', async ({ page }) => {
+    const result = await runTool(page, 'click_element', {
+      timeout: 500,
+      role: 'button',
+      name: 'Save',
+    });
+
+    expect(result).toMatch(/Successfully clicked button "Save" \[ref=e\d+\]/);
+    expect((await clickLog(page))[0].target).toBe('save');
+  });
+
+  test('should list candidates when role and name are ambiguous', async ({
+    page,
+  }) => {
+    const result = await runTool(page, 'click_element', {
+      timeout: 500,
+      role: 'button',
+      name: 'sav',
+    });
+
+    expect(result).toMatch(
+      /Error: Multiple elements match button "sav" \(2\): button "Save" \[ref=e\d+\], button "Save draft" \[ref=e\d+\]/
+    );
+  });
+
+  test('should click by selector', async ({ page }) => {
+    const result = await runTool(page, 'click_element', {
+      timeout: 500,
+      selector: '#save-draft',
+    });
+
+    expect(result).toBe('Successfully clicked element matching "#save-draft"');
+    expect((await clickLog(page))[0].target).toBe('save-draft');
+  });
+
+  test('should double-click with modifiers at an offset', async ({ page }) => {
+    const result = await runTool(page, 'click_element', {
+      timeout: 500,
+      selector: '#row',
+      clickCount: 2,
+      modifiers: ['Shift'],
+      position: { x: 10, y: 5 },
+    });
+
+    expect(result).toContain('Successfully double-clicked');
+    const events = await clickLog(page);
+    expect(events.map((e) => `${e.type}:${e.detail}`)).toEqual([
+      'click:1',
+      'click:2',
+      'dblclick:2',
+    ]);
+    expect(events.every((e) => e.shiftKey && e.offsetX === 10)).toBe(true);
+  });
+
+  test('should click at viewport coordinates', async ({ page }) => {
+    const result = await runTool(page, 'click_element', {
+      timeout: 500,
+      coordinates: { x: 150, y: 120 },
+    });
+
+    expect(result).toBe('Successfully clicked point (150, 120) on <div#row>');
+    expect((await clickLog(page))[0]).toMatchObject({
+      type: 'click',
+      target: 'row',
+      offsetX: 50,
+    });
+  });
+
+  test('should open context menus with right_click', async ({ page }) => {
+    const result = await runTool(page, 'right_click', {
+      timeout: 500,
+      selector: '#row',
+      modifiers: ['Control'],
+    });
+
+    expect(result).toBe('Successfully right-clicked element matching "#row"');
+    const events = await clickLog(page);
+    expect(events.map((e) => e.type)).toEqual(['contextmenu', 'auxclick']);
+    expect(events[0]).toMatchObject({ button: 2, ctrlKey: true });
+  });
+
+  test('should reject ambiguous targeting', async ({ page }) => {
+    const result = await runTool(page, 'click_element', {
+      timeout: 500,
+      selector: '#row',
+      role: 'button',
+    });
+
+    expect(result).toBe(
+      'Error: Specify exactly one of ref, refs, selector, role (with name) or coordinates'
+    );
+  });
+
+  test('should click by refs and note re-bound refs', async ({ page }) => {
+    const ref = await getRef(page, '#save');
+    const result = await runTool(page, 'click_element', {
+      timeout: 500,
+      refs: [ref],
+    });
+    expect(result).toBe(`Successfully clicked element with ref "${ref}"`);
+
+    // Re-render the button so that the ref has to be re-bound
+    await page.evaluate(() => {
+      const save = document.getElementById('save')!;
+      save.replaceWith(save.cloneNode(true));
+    });
+    const rebound = await runTool(page, 'click_element', {
+      timeout: 500,
+      refs: [ref],
+    });
+    expect(rebound).toContain(
+      `Successfully clicked element with ref "${ref}" (ref "${ref}" was re-bound heuristically`
+    );
+    expect((await clickLog(page)).map((e) => e.target)).toEqual([
+      'save',
+      'save',
+    ]);
+  });
+
+  test('should reject position with coordinates', async ({ page }) => {
+    const result = await runTool(page, 'click_element', {
+      timeout: 500,
+      coordinates: { x: 150, y: 120 },
+      position: { x: 10, y: 5 },
+    });
+
+    expect(result).toBe(
+      'Error: "position" cannot be used together with "coordinates"'
+    );
+  });
+});
@@ -0,0 +1,108 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Collapsed Repeated Siblings', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const list = document.createElement('ul');
+      list.id = 'product-list';
+      for (let i = 0; i < 40; i++) {
+        const item = document.createElement('li');
+        const link = document.createElement('a');
+        link.href = `#product-${i}`;
+        link.textContent = `Product ${i}`;
+        item.appendChild(link);
+        list.appendChild(item);
+      }
+      document.body.appendChild(list);
+    });
+  });
+
+  test('should summarize runs of identical siblings in AI mode', async ({
+    page,
+  }) => {
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(
+        document.getElementById('product-list')!
+      );
+    });
+
+    console.log('Collapsed snapshot:', snapshot);
+
+    expect(snapshot).toContain('Product 0');
+    expect(snapshot).toContain('Product 2');
+    expect(snapshot).not.toContain('Product 3');
+    expect(snapshot).toMatch(
+      /- … 37 more listitem like above, refs e\d+, e\d+, …, e\d+/
+    );
+  });
+
+  test('should keep elided items addressable by ref', async ({ page }) => {
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(
+        document.getElementById('product-list')!
+      );
+    });
+
+    const lastRef = snapshot.match(/…, (e\d+)$/m)![1];
+
+    const item = await page.evaluate(async (ref) => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-collapsed-ref',
+        type: 'take_snapshot',
+        payload: { mode: 'ai', enableReact: false, refs: [ref] },
+      });
+    }, lastRef);
+
+    expect(item).toContain(`listitem [ref=${lastRef}]`);
+    expect(item).toContain('Product 39');
+  });
+
+  test('should list every item when collapsing is disabled', async ({
+    page,
+  }) => {
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(
+        document.getElementById('product-list')!,
+        { collapseRepeats: false }
+      );
+    });
+
+    expect(snapshot).toContain('Product 39');
+    expect(snapshot).not.toContain('like above');
+  });
+
+  test('should not collapse in expect mode', async ({ page }) => {
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshot(
+        document.getElementById('product-list')!,
+        { mode: 'expect' }
+      );
+    });
+
+    expect(snapshot).toContain('Product 39');
+    expect(snapshot).not.toContain('like above');
+  });
+
+  test('should not collapse siblings with a different structure', async ({
+    page,
+  }) => {
+    await page.evaluate(() => {
+      const item = document.querySelectorAll('#product-list li')[4];
+      item.appendChild(document.createElement('button')).textContent = 'Buy';
+    });
+
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(
+        document.getElementById('product-list')!
+      );
+    });
+
+    // Items 0-3 are too short a run; the button breaks it before item 5
+    expect(snapshot).toContain('Product 3');
+    expect(snapshot).toContain('button "Buy"');
+    expect(snapshot).toMatch(/- … 32 more listitem like above/);
+  });
+});
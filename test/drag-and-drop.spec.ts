@@ -0,0 +1,132 @@
+import { expect, test } from '@playwright/test';
+import { getRef, runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Drag and Drop Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'drag-section';
+      section.style.cssText = 'display: flex; gap: 40px';
+      section.innerHTML = `
+        <div id="card" draggable="true" role="listitem" aria-label="Card"
+          style="width: 80px; height: 40px">Card</div>
+        <div id="handle" role="button" aria-label="Handle"
+          style="width: 80px; height: 40px">Handle</div>
+        <div id="todo" role="list" aria-label="Todo"
+          style="width: 120px; height: 80px">Todo</div>
+        <div id="done" role="list" aria-label="Done"
+          style="width: 120px; height: 80px">Done</div>
+      `;
+      document.body.appendChild(section);
+
+      (window as any).dragLog = [];
+      for (const type of [
+        'pointerdown',
+        'pointerup',
+        'dragstart',
+        'dragenter',
+        'drop',
+        'dragend',
+      ]) {
+        section.addEventListener(type, (event) =>
+          (window as any).dragLog.push(
+            `${type}@${(event.target as Element).id}`
+          )
+        );
+      }
+      (window as any).moves = 0;
+      document.addEventListener('pointermove', () => (window as any).moves++);
+
+      document
+        .getElementById('card')!
+        .addEventListener('dragstart', (event) => {
+          event.dataTransfer!.setData('text/plain', 'card-1');
+        });
+      const done = document.getElementById('done')!;
+      done.addEventListener('dragover', (event) => event.preventDefault());
+      done.addEventListener('drop', (event) => {
+        done.dataset.dropped = event.dataTransfer!.getData('text/plain');
+      });
+    });
+  });
+
+  test('should drop with a shared DataTransfer', async ({ page }) => {
+    const result = await runTool(page, 'drag_and_drop', {
+      element: 'card',
+      ref: await getRef(page, '#card'),
+      targetRef: await getRef(page, '#done'),
+      timeout: 1000,
+    });
+
+    console.log('Drag result:', result);
+
+    expect(result).toMatch(
+      /HTML5 drag: dropped on list "Done" \[ref=e\d+\] \(dropEffect: move\)/
+    );
+    expect(
+      await page.evaluate(
+        () => document.getElementById('done')!.dataset.dropped
+      )
+    ).toBe('card-1');
+    const log = await page.evaluate(() => (window as any).dragLog);
+    expect(log[0]).toBe('pointerdown@card');
+    expect(log).toContain('dragstart@card');
+    expect(log.slice(-3)).toEqual([
+      'drop@done',
+      'dragend@card',
+      'pointerup@done',
+    ]);
+  });
+
+  test('should report drops that no target accepts', async ({ page }) => {
+    const result = await runTool(page, 'drag_and_drop', {
+      element: 'card',
+      ref: await getRef(page, '#card'),
+      targetRef: await getRef(page, '#todo'),
+      timeout: 1000,
+    });
+
+    expect(result).toContain(
+      'HTML5 drag: no drop target accepted the drop (dragover was not cancelled)'
+    );
+  });
+
+  test('should drive pointer based drags with intermediate moves', async ({
+    page,
+  }) => {
+    const box = await page.locator('#done').boundingBox();
+    const result = await runTool(page, 'drag_and_drop', {
+      element: 'handle',
+      ref: await getRef(page, '#handle'),
+      targetCoordinates: { x: box!.x + 10, y: box!.y + 10 },
+      steps: 8,
+      timeout: 1000,
+    });
+
+    expect(result).toContain('Pointer drag: 8 moves');
+    expect(result).toContain(
+      'HTML5 drag: not started, the source is not draggable'
+    );
+    expect(
+      await page.evaluate(() => (window as any).moves)
+    ).toBeGreaterThanOrEqual(8);
+    expect(await page.evaluate(() => (window as any).dragLog)).toEqual([
+      'pointerdown@handle',
+      'pointerup@done',
+    ]);
+  });
+
+  test('should require exactly one target', async ({ page }) => {
+    const result = await runTool(page, 'drag_and_drop', {
+      element: 'card',
+      ref: await getRef(page, '#card'),
+      timeout: 1000,
+    });
+
+    expect(result).toBe(
+      'Error: Specify exactly one of targetRef or targetCoordinates'
+    );
+  });
+});
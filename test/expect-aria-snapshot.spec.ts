@@ -0,0 +1,108 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Expect Aria Snapshot Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+  });
+
+  test('should pass when the template matches the page', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.expect_aria_snapshot.execute({
+        id: 'test-expect-1',
+        type: 'expect_aria_snapshot',
+        payload: {
+          expected: `
+- heading "React Test Page" [level=1]
+- button /Click me \\(\\d+\\)/
+- button "Show Form"
+`,
+        },
+      });
+    });
+
+    expect(result).toContain('PASS');
+  });
+
+  test('should report missing nodes on failure', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.expect_aria_snapshot.execute({
+        id: 'test-expect-2',
+        type: 'expect_aria_snapshot',
+        payload: {
+          expected: `
+- heading "React Test Page" [level=1]
+- button "Delete everything"
+`,
+        },
+      });
+    });
+
+    console.log('Mismatch report:', result);
+
+    expect(result).toContain('FAIL');
+    expect(result).toContain('- button "Delete everything": not found');
+    expect(result).not.toContain(
+      '- heading "React Test Page" [level=1]: not found'
+    );
+    expect(result).toContain('Received:');
+    expect(result).toContain('heading "React Test Page" [level=1]');
+  });
+
+  test('should report mismatching children', async ({ page }) => {
+    await page.click('#show-form-button');
+    await page.waitForSelector('#test-form', { state: 'visible' });
+
+    const result = await page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.expect_aria_snapshot.execute({
+        id: 'test-expect-3',
+        type: 'expect_aria_snapshot',
+        payload: {
+          selector: '#test-form',
+          expected: `
+- textbox "Name:"
+- textbox "Phone:"
+`,
+        },
+      });
+    });
+
+    expect(result).toContain('FAIL');
+    expect(result).toContain('- textbox "Phone:": not found');
+    expect(result).not.toContain('- textbox "Name:": not found');
+  });
+
+  test('should scope the assertion to a ref', async ({ page }) => {
+    const snapshot = await page.evaluate(() => {
+      return window.A11yCap.snapshotForAI(document.body);
+    });
+    const buttonRef = snapshot.match(/button "Show Form" \[ref=(e\d+)\]/)![1];
+
+    const result = await page.evaluate(async (ref) => {
+      return await window.A11yCap.toolHandlers.expect_aria_snapshot.execute({
+        id: 'test-expect-4',
+        type: 'expect_aria_snapshot',
+        payload: {
+          refs: [ref],
+          expected: '- heading "React Test Page"',
+        },
+      });
+    }, buttonRef);
+
+    expect(result).toContain('FAIL');
+  });
+
+  test('should reject invalid templates', async ({ page }) => {
+    const resultPromise = page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.expect_aria_snapshot.execute({
+        id: 'test-expect-5',
+        type: 'expect_aria_snapshot',
+        payload: { expected: 'heading: [unclosed' },
+      });
+    });
+
+    await expect(resultPromise).rejects.toThrow(
+      'Invalid aria snapshot template'
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { expect, test } from '@playwright/test';
+import { getRef, runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Explain Accessible Name Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'name-section';
+      section.innerHTML = `
+        <label id="email-label" for="email-input">Email <span aria-hidden="true">*</span> address</label>
+        <input id="email-input" type="email">
+        <span id="greeting">Hello</span><span id="audience">world</span>
+        <button id="labelled-button" aria-labelledby="greeting audience missing-id">Ignored content</button>
+        <button id="icon-button"><svg aria-hidden="true" width="16" height="16"></svg></button>
+        <input id="search-input" placeholder="Search docs">
+      `;
+      document.body.appendChild(section);
+    });
+  });
+
+  test('should explain a name from a label with hidden content', async ({
+    page,
+  }) => {
+    const result = await runTool(page, 'explain_accessible_name', {
+      element: 'email-input',
+      ref: await getRef(page, '#email-input'),
+    });
+
+    console.log('Explanation:', result);
+
+    expect(result).toContain('Accessible name: "Email address"');
+    expect(result).toContain('Source: associated <label> element');
+    expect(result).toMatch(
+      /- textbox \[ref=e\d+\]: associated <label> element → "Email address"/
+    );
+    expect(result).toMatch(/ {2}- .*: text content → "Email address"/);
+    expect(result).toMatch(/ {4}- .*: skipped, hidden \(aria-hidden="true"\)/);
+  });
+
+  test('should list aria-labelledby targets and missing ids', async ({
+    page,
+  }) => {
+    const result = await runTool(page, 'explain_accessible_name', {
+      element: 'labelled-button',
+      ref: await getRef(page, '#labelled-button'),
+    });
+
+    expect(result).toContain('Accessible name: "Hello world"');
+    expect(result).toContain('Source: aria-labelledby');
+    expect(result).toMatch(/ {2}- .*\[ref=e\d+\]: text content → "Hello"/);
+    expect(result).toMatch(/ {2}- .*\[ref=e\d+\]: text content → "world"/);
+    expect(result).toContain(
+      'aria-labelledby references "missing-id", which does not exist'
+    );
+    expect(result).not.toContain('Ignored content');
+  });
+
+  test('should explain empty and placeholder names', async ({ page }) => {
+    const empty = await runTool(page, 'explain_accessible_name', {
+      element: 'icon-button',
+      ref: await getRef(page, '#icon-button'),
+    });
+    expect(empty).toContain('Accessible name: ""');
+    expect(empty).toContain('No rule produced a name');
+    expect(empty).toMatch(/skipped, hidden \(aria-hidden="true"\)/);
+
+    const placeholder = await runTool(page, 'explain_accessible_name', {
+      element: 'search-input',
+      ref: await getRef(page, '#search-input'),
+    });
+    expect(placeholder).toContain('Accessible name: "Search docs"');
+    expect(placeholder).toContain('Source: placeholder attribute');
+  });
+});
@@ -0,0 +1,94 @@
+import { expect, test } from '@playwright/test';
+import { runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Focus Order Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'focus-section';
+      section.innerHTML = `
+        <button>First</button>
+        <a href="#jump" tabindex="2">Jump ahead</a>
+        <input type="radio" name="size" aria-label="Small">
+        <input type="radio" name="size" aria-label="Large" checked>
+        <button style="position: absolute; width: 0; height: 0; overflow: hidden; padding: 0; border: 0">Ghost</button>
+        <div role="button" onclick="void 0">Fake button</div>
+        <button tabindex="-1">Mouse only</button>
+        <div role="listbox" tabindex="0" aria-label="Colors">
+          <div role="option">Red</div>
+        </div>
+        <button disabled>Disabled</button>
+      `;
+      document.body.appendChild(section);
+    });
+  });
+
+  test('should list tab stops with positive tabindex first', async ({
+    page,
+  }) => {
+    const result = await runTool(page, 'get_focus_order');
+
+    console.log('Focus order:', result);
+
+    const fixtureNames = ['Jump ahead', 'First', 'Large', 'Ghost', 'Colors'];
+    const stops = result
+      .split('\n')
+      .filter((line: string) => /^\d+\. /.test(line))
+      .map((line: string) => line.replace(/ (\[ref=e\d+\]|<\w+>).*$/, ''))
+      .filter((line: string) =>
+        fixtureNames.some((name) => line.includes(`"${name}"`))
+      );
+    expect(stops).toEqual([
+      '1. link "Jump ahead"',
+      expect.stringMatching(/^\d+\. button "First"$/),
+      expect.stringMatching(/^\d+\. radio "Large"$/),
+      expect.stringMatching(/^\d+\. button "Ghost"$/),
+      expect.stringMatching(/^\d+\. listbox "Colors"$/),
+    ]);
+    expect(result).toMatch(/1\. link "Jump ahead" \[ref=e\d+\] tabindex=2 \[/);
+  });
+
+  test('should flag keyboard accessibility issues', async ({ page }) => {
+    const result = await runTool(page, 'get_focus_order');
+
+    expect(result).toMatch(
+      /- Positive tabindex overrides document order: link "Jump ahead" \[ref=e\d+\] tabindex=2/
+    );
+    expect(result).toMatch(
+      /- Focusable but hidden \(zero size\): button "Ghost"/
+    );
+    expect(result).toMatch(
+      /- Not keyboard reachable \(not focusable\): button "Fake button" \[ref=e\d+\]/
+    );
+    expect(result).toMatch(
+      /- Not keyboard reachable \(tabindex="-1"\): button "Mouse only" \[ref=e\d+\]/
+    );
+    expect(result).not.toContain('"Red"');
+    expect(result).not.toContain('"Small"');
+    expect(result).not.toContain('"Disabled"');
+  });
+
+  test('should show and remove the numbered overlay', async ({ page }) => {
+    const shown = await runTool(page, 'get_focus_order', { overlay: true });
+    expect(shown).toContain('Overlay shown');
+
+    const badges = await page.evaluate(() => {
+      const overlay = document.querySelector('x-a11ycap-focus-order');
+      return Array.from(
+        overlay?.shadowRoot?.querySelectorAll('.badge') ?? []
+      ).map((badge) => badge.textContent);
+    });
+    expect(badges).toContain('1');
+    expect(badges).toContain('✕');
+
+    const again = await runTool(page, 'get_focus_order');
+    expect(again).toContain('Overlay removed.');
+    expect(
+      await page.evaluate(
+        () => !!document.querySelector('x-a11ycap-focus-order')
+      )
+    ).toBe(false);
+  });
+});
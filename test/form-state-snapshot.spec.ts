@@ -0,0 +1,85 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Form State in AI Snapshots', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const form = document.createElement('form');
+      form.id = 'signup-form';
+      form.innerHTML = `
+        <label>Work email <input id="work-email" type="email" placeholder="you@example.com" required></label>
+        <label>Secret <input id="secret" type="password"></label>
+        <label>Plan <select id="plan"><option>Free</option><option>Pro</option></select></label>
+        <label>Notes <textarea id="notes" aria-invalid="true"></textarea></label>
+      `;
+      document.body.appendChild(form);
+    });
+  });
+
+  test('should render typed values and placeholders as props', async ({
+    page,
+  }) => {
+    await page.fill('#work-email', 'jane@example.com');
+    await page.selectOption('#plan', 'Pro');
+
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(
+        document.getElementById('signup-form')!
+      );
+    });
+
+    console.log('Form snapshot:', snapshot);
+
+    expect(snapshot).toMatch(
+      /textbox "Work email" \[ref=e\d+\][^\n]*:\n\s+- \/value: jane@example.com\n\s+- \/placeholder: you@example.com/
+    );
+    expect(snapshot).toMatch(
+      /combobox "Plan" \[ref=e\d+\][^\n]*:\n\s+- \/value: Pro/
+    );
+  });
+
+  test('should mask password values', async ({ page }) => {
+    await page.fill('#secret', 'hunter2');
+
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(
+        document.getElementById('signup-form')!
+      );
+    });
+
+    expect(snapshot).not.toContain('hunter2');
+    // A fixed mask, so the password length is not revealed either
+    expect(snapshot).toMatch(/- \/value: ••••$/m);
+  });
+
+  test('should render validity state', async ({ page }) => {
+    await page.fill('#work-email', 'not-an-email');
+
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(
+        document.getElementById('signup-form')!
+      );
+    });
+
+    expect(snapshot).toMatch(/- \/validationMessage: .+/);
+    expect(snapshot).toMatch(
+      /textbox "Notes" \[ref=e\d+\][^\n]*:\n\s+- \/invalid: "true"/
+    );
+  });
+
+  test('should keep values as text in expect mode', async ({ page }) => {
+    await page.fill('#work-email', 'jane@example.com');
+
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshot(
+        document.getElementById('signup-form')!,
+        { mode: 'expect' }
+      );
+    });
+
+    expect(snapshot).toContain('- textbox "Work email": jane@example.com');
+    expect(snapshot).not.toContain('/placeholder');
+  });
+});
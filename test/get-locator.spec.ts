@@ -0,0 +1,104 @@
+import { expect, test } from '@playwright/test';
+import { getRef, runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Get Locator Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const fixture = document.createElement('div');
+      fixture.id = 'locator-fixture';
+      fixture.innerHTML = `
+        <label for="coupon">Coupon code</label>
+        <input id="coupon" type="text">
+        <button data-testid="delete-first">Delete</button>
+        <button data-testid="delete-second">Delete</button>
+        <p>Free shipping on all orders</p>
+        <p>Note</p>
+        <p>Note</p>
+        <button id="close-icon"></button>
+      `;
+      document.body.appendChild(fixture);
+    });
+  });
+
+  test('should prefer getByRole with an exact name', async ({ page }) => {
+    const ref = await getRef(page, '#coupon');
+    const result = await runTool(page, 'get_locator', {
+      element: '#coupon',
+      ref,
+    });
+
+    console.log('Locator:', result);
+
+    expect(result.split('\n')[0]).toBe(
+      "page.getByRole('textbox', { name: 'Coupon code', exact: true })"
+    );
+    expect(result).toContain('Strategy: role (unique in document)');
+    expect(result).toContain(
+      "- page.getByLabel('Coupon code', { exact: true })"
+    );
+  });
+
+  test('should fall back to getByTestId when the role is ambiguous', async ({
+    page,
+  }) => {
+    const ref = await getRef(page, '[data-testid="delete-second"]');
+    const result = await runTool(page, 'get_locator', {
+      element: '[data-testid="delete-second"]',
+      ref,
+    });
+
+    expect(result.split('\n')[0]).toBe("page.getByTestId('delete-second')");
+    expect(result).not.toContain("getByRole('button', { name: 'Delete'");
+  });
+
+  test('should fall back to getByText for unnamed elements', async ({
+    page,
+  }) => {
+    const ref = await getRef(page, '#locator-fixture > p:nth-of-type(1)');
+    const result = await runTool(page, 'get_locator', {
+      element: '#locator-fixture > p:nth-of-type(1)',
+      ref,
+    });
+
+    expect(result.split('\n')[0]).toBe(
+      "page.getByText('Free shipping on all orders', { exact: true })"
+    );
+  });
+
+  test('should fall back to a CSS path anchored at an id', async ({ page }) => {
+    const ref = await getRef(page, '#locator-fixture > p:nth-of-type(3)');
+    const result = await runTool(page, 'get_locator', {
+      element: '#locator-fixture > p:nth-of-type(3)',
+      ref,
+    });
+
+    expect(result.split('\n')[0]).toBe(
+      "page.locator('#locator-fixture > p:nth-of-type(3)')"
+    );
+    expect(result).toContain('Strategy: css (unique in document)');
+  });
+
+  test('should not count named elements for an unnamed role locator', async ({
+    page,
+  }) => {
+    const ref = await getRef(page, '#close-icon');
+    const result = await runTool(page, 'get_locator', {
+      element: '#close-icon',
+      ref,
+    });
+
+    expect(result.split('\n')[0]).toBe("page.locator('#close-icon')");
+    expect(result).not.toContain("getByRole('button')");
+  });
+
+  test('should throw for unknown refs', async ({ page }) => {
+    const result = await runTool(page, 'get_locator', {
+      element: 'missing',
+      ref: 'e99999',
+    });
+
+    expect(result).toMatch(/^Error: .*e99999/);
+  });
+});
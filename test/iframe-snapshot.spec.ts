@@ -0,0 +1,83 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Iframe Snapshots', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(async () => {
+      const iframe = document.createElement('iframe');
+      iframe.id = 'test-iframe';
+      iframe.srcdoc = `
+        <button id="frame-button" onclick="this.textContent = 'Clicked'">Inside frame</button>
+        <input id="frame-input" aria-label="Frame input" />
+      `;
+      const loaded = new Promise((resolve) => {
+        iframe.onload = resolve;
+      });
+      document.body.appendChild(iframe);
+      await loaded;
+    });
+  });
+
+  test('should include same-origin iframe content with frame-scoped refs', async ({
+    page,
+  }) => {
+    const snapshot = await page.evaluate(() => {
+      return window.A11yCap.snapshotForAI(document.body);
+    });
+
+    console.log('Snapshot with iframe:', snapshot);
+
+    expect(snapshot).toMatch(/- iframe \[ref=e\d+\]/);
+    expect(snapshot).toMatch(/button "Inside frame" \[ref=f\d+e\d+\]/);
+    expect(snapshot).toMatch(/textbox "Frame input" \[ref=f\d+e\d+\]/);
+  });
+
+  test('should resolve and click frame-scoped refs', async ({ page }) => {
+    const snapshot = await page.evaluate(() => {
+      return window.A11yCap.snapshotForAI(document.body);
+    });
+
+    const buttonRef = snapshot.match(
+      /button "Inside frame" \[ref=(f\d+e\d+)\]/
+    )![1];
+
+    const result = await page.evaluate(async (ref) => {
+      const found = window.A11yCap.findElementByRef(ref);
+      await window.A11yCap.toolHandlers.click_element.execute({
+        id: 'test-click-frame',
+        type: 'click_element',
+        payload: { element: 'Frame button', ref },
+      });
+      return { foundId: found?.id, text: found?.textContent };
+    }, buttonRef);
+
+    expect(result.foundId).toBe('frame-button');
+    expect(result.text).toBe('Clicked');
+  });
+
+  test('should type into frame-scoped refs', async ({ page }) => {
+    const snapshot = await page.evaluate(() => {
+      return window.A11yCap.snapshotForAI(document.body);
+    });
+
+    const inputRef = snapshot.match(
+      /textbox "Frame input" \[ref=(f\d+e\d+)\]/
+    )![1];
+
+    await page.evaluate(async (ref) => {
+      await window.A11yCap.toolHandlers.type_text.execute({
+        id: 'test-type-frame',
+        type: 'type_text',
+        payload: { element: 'Frame input', ref, text: 'hello frame' },
+      });
+    }, inputRef);
+
+    const value = await page
+      .frameLocator('#test-iframe')
+      .locator('#frame-input')
+      .inputValue();
+    expect(value).toBe('hello frame');
+  });
+});
@@ -0,0 +1,122 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('JSON Snapshot Format', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+  });
+
+  test('should return the aria tree as structured data', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-json',
+        type: 'take_snapshot',
+        payload: { mode: 'ai', enableReact: false, format: 'json' },
+      });
+    });
+
+    expect(result.snapshots).toHaveLength(1);
+    const [{ snapshotId, root }] = result.snapshots;
+    expect(snapshotId).toMatch(/^s\d+$/);
+    expect(root.role).toBe('fragment');
+
+    const nodes: any[] = [];
+    const collect = (node: any) => {
+      nodes.push(node);
+      for (const child of node.children) {
+        if (typeof child !== 'string') collect(child);
+      }
+    };
+    collect(root);
+
+    const heading = nodes.find(
+      (node) => node.role === 'heading' && node.name === 'React Test Page'
+    );
+    expect(heading).toMatchObject({ level: 1, receivesPointerEvents: true });
+    expect(heading.ref).toMatch(/^e\d+$/);
+    expect(heading.box.visible).toBe(true);
+    expect(heading.box.rect.width).toBeGreaterThan(0);
+
+    // DOM handles are left out
+    expect(nodes.every((node) => !('element' in node))).toBe(true);
+    expect(heading.box.style).toBeUndefined();
+  });
+
+  test('should include states and keep refs usable', async ({ page }) => {
+    await page.evaluate(() => {
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = true;
+      checkbox.disabled = true;
+      checkbox.setAttribute('aria-label', 'Subscribed');
+      document.body.appendChild(checkbox);
+    });
+
+    const result = await page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-json-states',
+        type: 'take_snapshot',
+        payload: { mode: 'ai', enableReact: false, format: 'json' },
+      });
+    });
+
+    // The result survives a JSON round trip unchanged
+    const parsed = JSON.parse(JSON.stringify(result));
+    const find = (node: any): any =>
+      node.name === 'Subscribed'
+        ? node
+        : node.children
+            .filter((child: any) => typeof child !== 'string')
+            .map(find)
+            .find(Boolean);
+    expect(find(parsed.snapshots[0].root)).toMatchObject({
+      role: 'checkbox',
+      checked: true,
+      disabled: true,
+    });
+
+    const buttonRef = await page.evaluate(async () => {
+      const { snapshots } =
+        await window.A11yCap.toolHandlers.take_snapshot.execute({
+          id: 'test-json-ref',
+          type: 'take_snapshot',
+          payload: { mode: 'ai', format: 'json', selector: '#test-button' },
+        });
+      return snapshots[0].root.children[0].ref;
+    });
+    expect(buttonRef).toMatch(/^e\d+$/);
+
+    const clicked = await page.evaluate(
+      (ref) => window.A11yCap.findElementByRef(ref)?.id,
+      buttonRef
+    );
+    expect(clicked).toBe('test-button');
+  });
+
+  test('should return the structured diff against a baseline', async ({
+    page,
+  }) => {
+    const baseline = await page.evaluate(async () => {
+      await window.A11yCap.snapshotForAI(document.body);
+      return window.A11yCap.getLastSnapshotId();
+    });
+
+    await page.click('#test-button');
+
+    const result = await page.evaluate(async (baseline) => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-json-diff',
+        type: 'take_snapshot',
+        payload: { mode: 'ai', enableReact: false, format: 'json', baseline },
+      });
+    }, baseline);
+
+    const [{ diff }] = result.snapshots;
+    expect(diff.baselineId).toBe(baseline);
+    expect(diff.renamed[0]).toMatchObject({
+      role: 'button',
+      name: 'Click me (1)',
+      previousName: 'Click me (0)',
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { expect, test } from '@playwright/test';
+import { runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Page Outline Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      document.body.innerHTML = `
+        <header>
+          <nav aria-label="Primary"><a href="#home">Home</a></nav>
+        </header>
+        <nav><a href="#legal">Legal</a></nav>
+        <main>
+          <h1>Billing</h1>
+          <article><header><h2>Current plan</h2></header></article>
+          <h4>Invoices</h4>
+          <section aria-label="Payment"><div role="heading">Card</div></section>
+          <section><h2>Unnamed section</h2></section>
+          <h3 aria-hidden="true">Hidden heading</h3>
+        </main>
+        <main><h2>Second main</h2></main>
+        <footer>Footer</footer>
+      `;
+    });
+  });
+
+  test('should list landmarks and headings as a tree', async ({ page }) => {
+    const result = await runTool(page, 'get_page_outline');
+
+    console.log('Outline:', result);
+
+    const lines = result
+      .split('\n')
+      .filter((line: string) => /^\s*- /.test(line))
+      .map((line: string) => line.replace(/ \[ref=e\d+\]/g, ''));
+    expect(lines.slice(0, 13)).toEqual([
+      '- banner',
+      '  - navigation "Primary"',
+      '- navigation',
+      '- main',
+      '  - heading "Billing" [level=1]',
+      '  - heading "Current plan" [level=2]',
+      '  - heading "Invoices" [level=4]',
+      '  - region "Payment"',
+      '    - heading "Card" [level=2]',
+      '  - heading "Unnamed section" [level=2]',
+      '- main',
+      '  - heading "Second main" [level=2]',
+      '- contentinfo',
+    ]);
+    expect(result).not.toContain('Hidden heading');
+    expect(result).toMatch(/- banner \[ref=e\d+\]/);
+  });
+
+  test('should flag outline issues', async ({ page }) => {
+    const result = await runTool(page, 'get_page_outline');
+
+    expect(result).toContain('Issues (3):');
+    expect(result).toMatch(
+      /- Skipped heading level: heading "Current plan" \[level=2\] \[ref=e\d+\] is followed by heading "Invoices" \[level=4\]/
+    );
+    expect(result).toMatch(
+      /- Multiple main landmarks \(2\): main \[ref=e\d+\]/
+    );
+    expect(result).toMatch(
+      /- 2 navigation landmarks, 1 without a label to tell them apart: navigation \[ref=e\d+\]/
+    );
+  });
+
+  test('should include landmarks and headings in open shadow roots', async ({
+    page,
+  }) => {
+    await page.evaluate(() => {
+      const host = document.createElement('div');
+      host.attachShadow({ mode: 'open' }).innerHTML =
+        '<nav aria-label="Cart steps"><h2>Cart</h2></nav>';
+      document.querySelector('main')!.appendChild(host);
+    });
+
+    const result = await runTool(page, 'get_page_outline');
+
+    expect(result).toMatch(
+      /\n {2}- navigation "Cart steps" \[ref=e\d+\]\n {4}- heading "Cart" \[level=2\] \[ref=e\d+\]\n/
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import { expect, test } from '@playwright/test';
+import { runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Press Key Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      document.body.innerHTML = `
+        <button id="first">First</button>
+        <input id="name" aria-label="Name" value="hello">
+        <form id="search-form">
+          <input id="query" aria-label="Query">
+          <button type="submit" id="go">Go</button>
+        </form>
+        <input type="checkbox" id="agree" aria-label="Agree">
+      `;
+      (window as any).keyLog = [];
+      for (const type of ['keydown', 'keypress', 'keyup']) {
+        document.addEventListener(type, (event) => {
+          const e = event as KeyboardEvent;
+          (window as any).keyLog.push(
+            `${type} ${e.key} ${e.code} ${e.keyCode}${e.ctrlKey ? ' ctrl' : ''}${e.shiftKey ? ' shift' : ''}`
+          );
+        });
+      }
+      (window as any).submits = 0;
+      document
+        .getElementById('search-form')!
+        .addEventListener('submit', (e) => {
+          e.preventDefault();
+          (window as any).submits++;
+        });
+    });
+  });
+
+  test('should press chords with codes and modifiers', async ({ page }) => {
+    await page.focus('#first');
+    await runTool(page, 'press_key', { key: 'Control+Shift+K' });
+
+    expect(await page.evaluate(() => (window as any).keyLog)).toEqual([
+      'keydown Control ControlLeft 17 ctrl',
+      'keydown Shift ShiftLeft 16 ctrl shift',
+      'keydown K KeyK 75 ctrl shift',
+      'keyup K KeyK 75 ctrl shift',
+      'keyup Shift ShiftLeft 16 ctrl shift',
+      'keyup Control ControlLeft 17 ctrl',
+    ]);
+  });
+
+  test('should move focus with Tab and Shift+Tab', async ({ page }) => {
+    await page.focus('#first');
+
+    const result = await runTool(page, 'press_key', { key: 'Tab' });
+    expect(result).toContain('Default action: moved focus to textbox "Name"');
+    expect(await page.evaluate(() => document.activeElement?.id)).toBe('name');
+
+    await runTool(page, 'press_key', { key: 'Shift+Tab' });
+    expect(await page.evaluate(() => document.activeElement?.id)).toBe('first');
+  });
+
+  test('should edit text in inputs', async ({ page }) => {
+    await page.evaluate(() => {
+      const input = document.getElementById('name') as HTMLInputElement;
+      input.focus();
+      input.setSelectionRange(5, 5);
+    });
+
+    expect(await runTool(page, 'press_key', { key: 'Backspace' })).toContain(
+      'value is now "hell"'
+    );
+    await runTool(page, 'press_key', { key: 'ArrowLeft' });
+    expect(await runTool(page, 'press_key', { key: 'Shift+1' })).toContain(
+      'value is now "hel!l"'
+    );
+    await runTool(page, 'press_key', { key: 'ControlOrMeta+A' });
+    expect(await runTool(page, 'press_key', { key: 'Delete' })).toContain(
+      'value is now ""'
+    );
+  });
+
+  test('should submit forms with Enter', async ({ page }) => {
+    await page.focus('#query');
+
+    const result = await runTool(page, 'press_key', { key: 'Enter' });
+
+    expect(result).toContain(
+      'Default action: submitted the form by clicking button "Go"'
+    );
+    expect(await page.evaluate(() => (window as any).submits)).toBe(1);
+  });
+
+  test('should toggle checkboxes with Space', async ({ page }) => {
+    await page.focus('#agree');
+
+    expect(await runTool(page, 'press_key', { key: 'Space' })).toContain(
+      'checked checkbox "Agree"'
+    );
+    expect(await page.isChecked('#agree')).toBe(true);
+  });
+
+  test('should skip the default action when the page cancels the key', async ({
+    page,
+  }) => {
+    await page.evaluate(() => {
+      const input = document.getElementById('name')!;
+      input.addEventListener('keydown', (e) => e.preventDefault());
+      input.focus();
+    });
+
+    const result = await runTool(page, 'press_key', { key: 'a' });
+
+    expect(result).toContain('the key event was cancelled by the page');
+    expect(await page.inputValue('#name')).toBe('hello');
+  });
+
+  test('should reject unknown keys', async ({ page }) => {
+    expect(await runTool(page, 'press_key', { key: 'Hyper+a' })).toContain(
+      '"Hyper" is not a modifier'
+    );
+  });
+
+  test('should press keys that are not on a US keyboard', async ({ page }) => {
+    expect(await runTool(page, 'press_key_global', { key: 'F13' })).toBe(
+      'Successfully pressed key "F13" globally'
+    );
+    expect(
+      await runTool(page, 'press_key_global', { key: 'MediaPlayPause' })
+    ).toBe('Successfully pressed key "MediaPlayPause" globally');
+
+    expect(await page.evaluate(() => (window as any).keyLog)).toEqual([
+      'keydown F13  0',
+      'keyup F13  0',
+      'keydown MediaPlayPause  0',
+      'keyup MediaPlayPause  0',
+    ]);
+  });
+});
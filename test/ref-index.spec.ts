@@ -0,0 +1,101 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Indexed Ref Lookup', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+  });
+
+  test('should find refs from the latest snapshot', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const snapshot = await window.A11yCap.snapshotForAI(document.body);
+      const ref = snapshot.match(/button "Show Form" \[ref=(e\d+)\]/)![1];
+      return window.A11yCap.findElementByRef(ref)?.id;
+    });
+
+    expect(result).toBe('show-form-button');
+  });
+
+  test('should invalidate refs of disconnected elements', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const extra = document.createElement('button');
+      extra.textContent = 'Temporary';
+      document.body.appendChild(extra);
+
+      const snapshot = await window.A11yCap.snapshotForAI(document.body);
+      const ref = snapshot.match(/button "Temporary" \[ref=(e\d+)\]/)![1];
+      const before = window.A11yCap.findElementByRef(ref) === extra;
+      extra.remove();
+      const after = window.A11yCap.findElementByRef(ref);
+      return { before, after };
+    });
+
+    expect(result.before).toBe(true);
+    expect(result.after).toBeNull();
+  });
+
+  test('should find refs again once a moved element reconnects', async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const list = document.createElement('ul');
+      list.innerHTML = '<li>First</li><li>Second</li>';
+      document.body.appendChild(list);
+
+      const snapshot = await window.A11yCap.snapshotForAI(document.body);
+      const ref = snapshot.match(/listitem \[ref=(e\d+)\][^\n]*: First/)![1];
+      const item = list.firstElementChild!;
+      item.remove();
+      const detached = window.A11yCap.findElementByRef(ref);
+      list.appendChild(item);
+      const reconnected = window.A11yCap.findElementByRef(ref) === item;
+      return { detached, reconnected };
+    });
+
+    expect(result.detached).toBeNull();
+    expect(result.reconnected).toBe(true);
+  });
+
+  test('should only return refs inside the given root', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const snapshot = await window.A11yCap.snapshotForAI(document.body);
+      const ref = snapshot.match(/button "Show Form" \[ref=(e\d+)\]/)![1];
+      const container = document.getElementById('size-test-container')!;
+      return window.A11yCap.findElementByRef(ref, container);
+    });
+
+    expect(result).toBeNull();
+  });
+
+  test('should resolve refs on large pages without walking the DOM', async ({
+    page,
+  }) => {
+    const elapsed = await page.evaluate(async () => {
+      const container = document.createElement('div');
+      for (let i = 0; i < 10000; i++) {
+        const item = document.createElement('button');
+        item.textContent = `Button ${i}`;
+        container.appendChild(item);
+      }
+      document.body.appendChild(container);
+
+      const snapshot = await window.A11yCap.snapshotForAI(document.body, {
+        max_chars: 1_000_000,
+        collapseRepeats: false,
+      });
+      const refs = Array.from(
+        snapshot.matchAll(/button "Button \d+" \[ref=(e\d+)\]/g),
+        (match) => match[1]
+      ).slice(-20);
+
+      const start = performance.now();
+      for (let i = 0; i < 100; i++) {
+        for (const ref of refs) window.A11yCap.findElementByRef(ref);
+      }
+      return performance.now() - start;
+    });
+
+    console.log(`2000 ref lookups took ${elapsed.toFixed(1)}ms`);
+    expect(elapsed).toBeLessThan(200);
+  });
+});
@@ -0,0 +1,133 @@
+import { expect, test } from '@playwright/test';
+import { runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Screen Reader Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'billing-section';
+      section.innerHTML = `
+        <nav aria-label="Billing steps">
+          <ul><li><a href="#plan">Plan</a></li><li><a href="#payment">Payment</a></li></ul>
+        </nav>
+        <h2>Billing</h2>
+        <p>Enter your <strong>payment</strong> details.</p>
+        <span aria-hidden="true">Decorative icon</span>
+        <label>Card number <input type="text" required></label>
+        <button disabled>Save</button>
+        <h2>Summary</h2>
+        <a href="#terms">Terms</a>
+      `;
+      document.body.appendChild(section);
+    });
+  });
+
+  test('should read the region in reading order', async ({ page }) => {
+    const transcript = await runTool(page, 'screen_reader', {
+      selector: '#billing-section',
+    });
+
+    console.log('Transcript:', transcript);
+
+    const lines = transcript
+      .split('\n')
+      .map((line) => line.replace(/ \[ref=e\d+\]$/, ''));
+    expect(lines).toEqual([
+      'navigation landmark, Billing steps',
+      'list, 2 items',
+      'link, Plan',
+      'link, Payment',
+      'out of list',
+      'out of navigation landmark',
+      'heading level 2, Billing',
+      'Enter your payment details.',
+      'Card number',
+      'edit text, Card number, required',
+      'button, Save, disabled',
+      'heading level 2, Summary',
+      'link, Terms',
+    ]);
+    expect(transcript).not.toContain('Decorative icon');
+  });
+
+  test('should move to the next heading from a ref', async ({ page }) => {
+    const first = await runTool(page, 'screen_reader', {
+      selector: '#billing-section',
+      command: 'next_heading',
+    });
+    expect(first).toMatch(/^heading level 2, Billing \[ref=e\d+\]/);
+
+    const ref = first.match(/\[ref=(e\d+)\]/)![1];
+    const second = await runTool(page, 'screen_reader', {
+      selector: '#billing-section',
+      command: 'next_heading',
+      from: ref,
+    });
+    expect(second).toMatch(/^heading level 2, Summary \[ref=e\d+\]/);
+
+    const nextRef = second.match(/\[ref=(e\d+)\]/)![1];
+    const none = await runTool(page, 'screen_reader', {
+      selector: '#billing-section',
+      command: 'next_heading',
+      from: nextRef,
+    });
+    expect(none).toBe(`No next heading after ref "${nextRef}"`);
+  });
+
+  test('should navigate form fields, links and landmarks', async ({ page }) => {
+    const heading = await runTool(page, 'screen_reader', {
+      selector: '#billing-section',
+      command: 'next_heading',
+    });
+    const ref = heading.match(/\[ref=(e\d+)\]/)![1];
+
+    expect(
+      await runTool(page, 'screen_reader', {
+        selector: '#billing-section',
+        command: 'next_form_field',
+        from: ref,
+      })
+    ).toMatch(/^edit text, Card number, required \[ref=e\d+\]/);
+    expect(
+      await runTool(page, 'screen_reader', {
+        selector: '#billing-section',
+        command: 'next_link',
+        from: ref,
+      })
+    ).toMatch(/^link, Terms \[ref=e\d+\]/);
+    expect(
+      await runTool(page, 'screen_reader', {
+        selector: '#billing-section',
+        command: 'next_landmark',
+      })
+    ).toMatch(/^navigation landmark, Billing steps \[ref=e\d+\]/);
+  });
+
+  test('should continue a truncated transcript without losing text lines', async ({
+    page,
+  }) => {
+    const full = await runTool(page, 'screen_reader', {
+      selector: '#billing-section',
+    });
+
+    // Line 8 is the plain text "Enter your payment details."
+    const first = await runTool(page, 'screen_reader', {
+      selector: '#billing-section',
+      max_lines: 7,
+    });
+    const hint = first.match(
+      /\n… 6 more lines; call screen_reader\(from="(e\d+)"(?:, skip=(\d+))?\) to continue reading$/
+    )!;
+    expect(hint).toBeTruthy();
+
+    const rest = await runTool(page, 'screen_reader', {
+      selector: '#billing-section',
+      from: hint[1],
+      skip: Number(hint[2] ?? 0),
+    });
+    expect(rest.split('\n')[0]).toBe('Enter your payment details.');
+    expect(`${first.slice(0, hint.index)}\n${rest}`).toBe(full);
+  });
+});
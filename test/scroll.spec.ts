@@ -0,0 +1,149 @@
+import { expect, test } from '@playwright/test';
+import { getRef, runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Scroll Tool', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'scroll-section';
+      section.innerHTML = `
+        <div id="feed" style="height: 200px; overflow-y: auto"></div>
+        <div style="height: 3000px"></div>
+        <button id="far-button">Far away</button>
+      `;
+      document.body.appendChild(section);
+
+      // Infinite feed: ten more items load whenever the end is reached
+      const feed = document.getElementById('feed')!;
+      let count = 0;
+      const load = () => {
+        for (let i = 0; i < 10; i++) {
+          const item = document.createElement('div');
+          item.style.height = '50px';
+          item.textContent = `Post ${++count}`;
+          feed.appendChild(item);
+        }
+      };
+      load();
+      feed.addEventListener('scroll', () => {
+        if (
+          feed.scrollTop + feed.clientHeight >= feed.scrollHeight - 1 &&
+          count < 50
+        )
+          setTimeout(load, 200);
+      });
+      (window as any).wheelEvents = 0;
+      feed.addEventListener('wheel', () => (window as any).wheelEvents++);
+    });
+  });
+
+  test('should scroll an element into view', async ({ page }) => {
+    const result = await runTool(page, 'scroll', {
+      selector: '#far-button',
+      block: 'start',
+    });
+
+    expect(result).toContain('into view (block: start, inline: nearest)');
+    expect(result).toMatch(/Scroll position of window: x=0, y=[1-9]\d*/);
+    const top = await page.evaluate(
+      () => document.getElementById('far-button')!.getBoundingClientRect().top
+    );
+    expect(Math.round(top)).toBe(0);
+  });
+
+  test('should scroll a container by pixels with a wheel event', async ({
+    page,
+  }) => {
+    const result = await runTool(page, 'scroll', {
+      selector: '#feed',
+      direction: 'down',
+      amount: 120,
+      unit: 'pixels',
+    });
+
+    expect(result).toContain('Scrolled div <div#feed> down by 120px');
+    expect(result).toContain(
+      'Scroll position of div <div#feed>: x=0, y=120 (max x=0, y=300)'
+    );
+    expect(result).toContain('Not at the bottom end yet');
+    expect(await page.evaluate(() => (window as any).wheelEvents)).toBe(1);
+  });
+
+  test('should report reaching the end', async ({ page }) => {
+    const result = await runTool(page, 'scroll', {
+      selector: '#feed',
+      direction: 'down',
+      amount: 5,
+    });
+
+    expect(result).toContain('Scrolled div <div#feed> down by 5 pages (875px)');
+    expect(result).toContain('Reached the bottom end');
+  });
+
+  test('should scroll until text appears in an infinite feed', async ({
+    page,
+  }) => {
+    const result = await runTool(page, 'scroll', {
+      selector: '#feed',
+      untilText: 'Post 37',
+    });
+
+    expect(result).toMatch(/Found text "Post 37" after [1-9]\d* scrolls: /);
+    expect(
+      await page.evaluate(
+        () => document.getElementById('feed')!.children.length
+      )
+    ).toBeGreaterThanOrEqual(37);
+  });
+
+  test('should give up when the feed runs out', async ({ page }) => {
+    const result = await runTool(page, 'scroll', {
+      selector: '#feed',
+      untilText: 'Post 99',
+      timeout: 500,
+    });
+
+    expect(result).toMatch(
+      /Error: Text "Post 99" did not appear after \d+ scrolls/
+    );
+    expect(result).toContain('Reached the bottom end');
+  });
+
+  test('should find the innermost element with the text when scrolling the window', async ({
+    page,
+  }) => {
+    await page.evaluate(() => {
+      const section = document.getElementById('scroll-section')!;
+      window.addEventListener(
+        'scroll',
+        () =>
+          section.insertAdjacentHTML(
+            'beforeend',
+            `
+            <article id="archive">
+              <h3>Archive</h3>
+              <p id="archive-note">
+                Older posts are
+                <em>archived</em>
+              </p>
+            </article>
+          `
+          ),
+        { once: true }
+      );
+    });
+
+    const result = await runTool(page, 'scroll', {
+      untilText: 'Older posts are',
+    });
+
+    const ref = await getRef(page, '#archive-note');
+    expect(result).toMatch(
+      new RegExp(
+        `^Found text "Older posts are" after [1-9]\\d* scrolls?: paragraph \\[ref=${ref}\\]\n`
+      )
+    );
+  });
+});
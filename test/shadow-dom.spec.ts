@@ -0,0 +1,106 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Shadow DOM Targeting', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      class SaveDialog extends HTMLElement {
+        constructor() {
+          super();
+          const root = this.attachShadow({ mode: 'open' });
+          root.innerHTML = `
+            <div role="dialog" aria-label="Save changes">
+              <button class="primary">Save</button>
+              <nested-confirm></nested-confirm>
+            </div>
+          `;
+        }
+      }
+      class NestedConfirm extends HTMLElement {
+        constructor() {
+          super();
+          const root = this.attachShadow({ mode: 'open' });
+          root.innerHTML = '<button class="primary">Confirm</button>';
+        }
+      }
+      customElements.define('save-dialog', SaveDialog);
+      customElements.define('nested-confirm', NestedConfirm);
+
+      (window as any).shadowClicks = [];
+      const dialog = document.createElement('save-dialog');
+      dialog.addEventListener('click', (event) => {
+        (window as any).shadowClicks.push(
+          (event.composedPath()[0] as Element).textContent
+        );
+      });
+      document.body.appendChild(dialog);
+    });
+  });
+
+  test('should click refs assigned inside shadow roots', async ({ page }) => {
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(document.body);
+    });
+    const ref = snapshot.match(/button "Confirm" \[ref=(e\d+)\]/)![1];
+
+    const result = await page.evaluate(async (ref) => {
+      return await window.A11yCap.toolHandlers.click_element.execute({
+        id: 'test-shadow-click',
+        type: 'click_element',
+        payload: { element: 'Confirm button', ref, captureSnapshot: false },
+      });
+    }, ref);
+
+    expect(result).toContain(`Successfully clicked element with ref "${ref}"`);
+    expect(await page.evaluate(() => (window as any).shadowClicks)).toEqual([
+      'Confirm',
+    ]);
+  });
+
+  test('should pierce shadow roots with the >>> combinator', async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-shadow-selector',
+        type: 'take_snapshot',
+        payload: { selector: 'save-dialog >>> button.primary', mode: 'ai' },
+      });
+    });
+
+    expect(result).toContain('button "Save"');
+    expect(result).toContain('button "Confirm"');
+  });
+
+  test('should scope each >>> step to the previous match', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-shadow-chain',
+        type: 'take_snapshot',
+        payload: { selector: '>>> nested-confirm >>> button', mode: 'ai' },
+      });
+    });
+
+    expect(result).toContain('button "Confirm"');
+    expect(result).not.toContain('button "Save"');
+  });
+
+  test('should keep plain selectors in the light DOM', async ({ page }) => {
+    const error = await page.evaluate(async () => {
+      try {
+        await window.A11yCap.toolHandlers.take_snapshot.execute({
+          id: 'test-shadow-plain',
+          type: 'take_snapshot',
+          payload: { selector: 'button.primary', mode: 'ai' },
+        });
+        return null;
+      } catch (e) {
+        return (e as Error).message;
+      }
+    });
+
+    expect(error).toContain('No elements found');
+  });
+});
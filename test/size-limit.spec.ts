@@ -170,4 +170,73 @@ test.describe('Size Limited Snapshots', () => {
     // The actual content should respect the size limit
     expect(contentBeforeWarning.length).toBeLessThanOrEqual(300);
   });
+
+  test('should summarize omitted children with expandable refs', async ({
+    page,
+  }) => {
+    await page.evaluate(() => {
+      const list = document.createElement('ul');
+      list.id = 'budget-list';
+      for (let i = 0; i < 200; i++) {
+        const item = document.createElement('li');
+        item.textContent = `Budget item ${i}`;
+        list.appendChild(item);
+      }
+      document.getElementById('size-test-container')?.appendChild(list);
+    });
+
+    const snapshot = await page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(
+        document.getElementById('size-test-container')!,
+        { max_chars: 600, collapseRepeats: false }
+      );
+    });
+
+    const contentBeforeWarning = snapshot.split('\n\n[WARNING:')[0];
+    expect(contentBeforeWarning.length).toBeLessThanOrEqual(600);
+    expect(snapshot).toContain('[WARNING:');
+
+    const placeholder = contentBeforeWarning.match(
+      /- … (\d+) more children \[expand=(e\d+)\]/
+    );
+    expect(placeholder).toBeTruthy();
+    expect(Number(placeholder![1])).toBeGreaterThan(0);
+
+    // The expand ref points at the parent of the omitted children
+    const expanded = await page.evaluate(async (ref) => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-expand',
+        type: 'take_snapshot',
+        payload: {
+          mode: 'ai',
+          enableReact: false,
+          refs: [ref],
+          max_chars: 20000,
+          collapseRepeats: false,
+        },
+      });
+    }, placeholder![2]);
+
+    expect(expanded).toContain('Budget item 199');
+    expect(expanded).not.toContain('more children');
+  });
+
+  test('should render large trees quickly', async ({ page }) => {
+    const duration = await page.evaluate(async () => {
+      const container = document.createElement('div');
+      for (let i = 0; i < 5000; i++) {
+        const button = document.createElement('button');
+        button.textContent = `Row ${i}`;
+        container.appendChild(button);
+      }
+      document.body.appendChild(container);
+
+      const start = performance.now();
+      await window.A11yCap.snapshotForAI(container, { max_chars: 4096 });
+      return performance.now() - start;
+    });
+
+    // Well below the 5s test timeout, so that a slow render fails the assertion
+    expect(duration).toBeLessThan(1000);
+  });
 });
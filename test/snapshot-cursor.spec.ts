@@ -0,0 +1,132 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Snapshot Continuation Cursors', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const list = document.createElement('ul');
+      list.id = 'cursor-list';
+      for (let i = 0; i < 60; i++) {
+        const item = document.createElement('li');
+        item.textContent = `Cursor item ${i}`;
+        list.appendChild(item);
+      }
+      document.getElementById('size-test-container')?.appendChild(list);
+    });
+  });
+
+  test('should page through a truncated snapshot without changing refs', async ({
+    page,
+  }) => {
+    const pages = await page.evaluate(async () => {
+      const takeSnapshot = (payload: Record<string, unknown>) =>
+        window.A11yCap.toolHandlers.take_snapshot.execute({
+          id: 'test-cursor',
+          type: 'take_snapshot',
+          payload: {
+            mode: 'ai',
+            enableReact: false,
+            max_chars: 800,
+            collapseRepeats: false,
+            ...payload,
+          },
+        });
+
+      const results: string[] = [await takeSnapshot({})];
+      for (let i = 0; i < 50; i++) {
+        const cursor = results[results.length - 1].match(
+          /\[CURSOR: (s\d+:\d+)\]/
+        );
+        if (!cursor) break;
+        results.push(await takeSnapshot({ cursor: cursor[1] }));
+      }
+      return results;
+    });
+
+    expect(pages.length).toBeGreaterThan(1);
+
+    // Every page belongs to the same stored snapshot
+    const snapshotIds = pages.map(
+      (text) => text.match(/^\[Snapshot ID: (s\d+)\]/)![1]
+    );
+    expect(new Set(snapshotIds).size).toBe(1);
+
+    // Each page respects the size limit and the last one is complete
+    for (const text of pages) {
+      expect(text.split('\n\n[WARNING:')[0].length).toBeLessThanOrEqual(800);
+    }
+    expect(pages[pages.length - 1]).not.toContain('[CURSOR:');
+
+    // Every item shows up exactly once, with a single ref across pages
+    const combined = pages.join('\n');
+    for (let i = 0; i < 60; i++) {
+      const matches = combined.match(
+        new RegExp(`listitem \\[ref=e\\d+\\][^\\n]*: Cursor item ${i}$`, 'gm')
+      );
+      expect(matches).toHaveLength(1);
+    }
+  });
+
+  test('should not regenerate the tree when continuing', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const first = await window.A11yCap.snapshotForAI(document.body, {
+        max_chars: 800,
+        collapseRepeats: false,
+      });
+      const cursor = first.match(/\[CURSOR: (s\d+:\d+)\]/)![1];
+      const snapshotId = window.A11yCap.getLastSnapshotId();
+
+      // Later DOM changes are not reflected in the stored snapshot
+      document.getElementById('cursor-list')?.remove();
+      const next = window.A11yCap.continueSnapshot(cursor, { max_chars: 800 });
+
+      return {
+        next,
+        snapshotId,
+        lastSnapshotId: window.A11yCap.getLastSnapshotId(),
+      };
+    });
+
+    expect(result.lastSnapshotId).toBe(result.snapshotId);
+    expect(result.next).toContain('Cursor item');
+  });
+
+  test('should keep the cursor when the next page does not fit', async ({
+    page,
+  }) => {
+    const result = await page.evaluate(async () => {
+      const first = await window.A11yCap.snapshotForAI(document.body, {
+        max_chars: 800,
+        collapseRepeats: false,
+      });
+      const cursor = first.match(/\[CURSOR: (s\d+:\d+)\]/)![1];
+      const tooSmall = window.A11yCap.continueSnapshot(cursor, {
+        max_chars: 10,
+      });
+      const retryCursor = tooSmall.match(/\[CURSOR: (s\d+:\d+)\]/)![1];
+      const next = window.A11yCap.continueSnapshot(retryCursor, {
+        max_chars: 800,
+      });
+      return { tooSmall, next };
+    });
+
+    expect(result.tooSmall).toContain(
+      'The next part of the snapshot does not fit in max_chars'
+    );
+    expect(result.next).toContain('Cursor item');
+  });
+
+  test('should fail for unknown cursors', async ({ page }) => {
+    const resultPromise = page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-cursor-unknown',
+        type: 'take_snapshot',
+        payload: { cursor: 's999999:1' },
+      });
+    });
+
+    await expect(resultPromise).rejects.toThrow('Cursor "s999999:1" not found');
+  });
+});
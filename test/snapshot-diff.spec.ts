@@ -0,0 +1,167 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Snapshot Diffing', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+  });
+
+  test('should report no changes against an identical baseline', async ({
+    page,
+  }) => {
+    const diff = await page.evaluate(async () => {
+      await window.A11yCap.snapshotForAI(document.body);
+      const baseline = window.A11yCap.getLastSnapshotId();
+      return await window.A11yCap.snapshotForAI(document.body, { baseline });
+    });
+
+    expect(diff).toMatch(
+      /^Changes since snapshot s\d+ \(current snapshot: s\d+\):/
+    );
+    expect(diff).toContain('No changes');
+  });
+
+  test('should report renamed nodes after a click', async ({ page }) => {
+    const baseline = await page.evaluate(async () => {
+      await window.A11yCap.snapshotForAI(document.body);
+      return window.A11yCap.getLastSnapshotId();
+    });
+
+    await page.click('#test-button');
+
+    const diff = await page.evaluate(async (baseline) => {
+      return await window.A11yCap.snapshotForAI(document.body, { baseline });
+    }, baseline);
+
+    console.log('Diff after click:', diff);
+
+    expect(diff).toContain('renamed:');
+    expect(diff).toMatch(
+      /button "Click me \(0\)" \[ref=e\d+\] -> "Click me \(1\)" \(was e\d+\)/
+    );
+    expect(diff).not.toContain('heading "React Test Page"');
+  });
+
+  test('should report added and removed nodes', async ({ page }) => {
+    const baseline = await page.evaluate(async () => {
+      await window.A11yCap.snapshotForAI(document.body);
+      return window.A11yCap.getLastSnapshotId();
+    });
+
+    await page.click('#show-form-button');
+    await page.waitForSelector('#test-form', { state: 'visible' });
+
+    const added = await page.evaluate(async (baseline) => {
+      return await window.A11yCap.snapshotForAI(document.body, { baseline });
+    }, baseline);
+
+    expect(added).toContain('added:');
+    expect(added).toMatch(/textbox "Name:" \[ref=e\d+\]/);
+
+    const afterForm = await page.evaluate(() =>
+      window.A11yCap.getLastSnapshotId()
+    );
+
+    await page.click('#show-form-button');
+    await page.waitForSelector('#test-form', { state: 'detached' });
+
+    const removed = await page.evaluate(async (baseline) => {
+      return await window.A11yCap.snapshotForAI(document.body, { baseline });
+    }, afterForm);
+
+    expect(removed).toContain('removed:');
+    expect(removed).toMatch(/textbox "Name:" \[ref=e\d+\]/);
+  });
+
+  test('should report state changes', async ({ page }) => {
+    await page.evaluate(() => {
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.id = 'diff-checkbox';
+      checkbox.setAttribute('aria-label', 'Agree');
+      document.body.appendChild(checkbox);
+    });
+
+    const diff = await page.evaluate(async () => {
+      await window.A11yCap.snapshotForAI(document.body);
+      const baseline = window.A11yCap.getLastSnapshotId();
+      (document.getElementById('diff-checkbox') as HTMLInputElement).checked =
+        true;
+      return await window.A11yCap.snapshotForAI(document.body, { baseline });
+    });
+
+    expect(diff).toContain('changed:');
+    expect(diff).toMatch(
+      /checkbox "Agree" \[ref=e\d+\] checked: false -> true/
+    );
+  });
+
+  test('should return the structured diff for stored snapshots', async ({
+    page,
+  }) => {
+    const diff = await page.evaluate(async () => {
+      const { diffAriaSnapshots, getLastSnapshotId, getStoredSnapshot } =
+        window.A11yCap;
+      await window.A11yCap.snapshotForAI(document.body);
+      const baseline = getStoredSnapshot(getLastSnapshotId()!)!;
+      document.getElementById('test-button')?.click();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await window.A11yCap.snapshotForAI(document.body);
+      const current = getStoredSnapshot(getLastSnapshotId()!)!;
+      return diffAriaSnapshots(baseline, current);
+    });
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.renamed).toHaveLength(1);
+    expect(diff.renamed[0]).toMatchObject({
+      role: 'button',
+      name: 'Click me (1)',
+      previousName: 'Click me (0)',
+    });
+    expect(diff.renamed[0].ref).toMatch(/^e\d+$/);
+  });
+
+  test('should expose snapshot ids and baselines through take_snapshot', async ({
+    page,
+  }) => {
+    const first = await page.evaluate(async () => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-diff-1',
+        type: 'take_snapshot',
+        payload: { mode: 'ai', enableReact: false, max_chars: 4096 },
+      });
+    });
+
+    const idMatch = first.match(/^\[Snapshot ID: (s\d+)\]/);
+    expect(idMatch).toBeTruthy();
+
+    await page.click('#test-button');
+
+    const diff = await page.evaluate(async (baseline) => {
+      return await window.A11yCap.toolHandlers.take_snapshot.execute({
+        id: 'test-diff-2',
+        type: 'take_snapshot',
+        payload: {
+          mode: 'ai',
+          enableReact: false,
+          max_chars: 4096,
+          baseline,
+        },
+      });
+    }, idMatch![1]);
+
+    expect(diff).toContain(`Changes since snapshot ${idMatch![1]}`);
+    expect(diff).toContain('Click me (1)');
+  });
+
+  test('should fail for unknown baselines', async ({ page }) => {
+    const resultPromise = page.evaluate(async () => {
+      return await window.A11yCap.snapshotForAI(document.body, {
+        baseline: 's999999',
+      });
+    });
+
+    await expect(resultPromise).rejects.toThrow('Snapshot "s999999" not found');
+  });
+});
@@ -0,0 +1,113 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Stable Refs', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const main = document.createElement('main');
+      main.id = 'remount-container';
+      main.innerHTML = '<button>Save draft</button><button>Publish</button>';
+      document.body.appendChild(main);
+    });
+  });
+
+  test('should resolve refs exactly while the element exists', async ({
+    page,
+  }) => {
+    const snapshot = await page.evaluate(() => {
+      return window.A11yCap.snapshotForAI(document.body);
+    });
+    const ref = snapshot.match(/button "Save draft" \[ref=(e\d+)\]/)![1];
+
+    const resolution = await page.evaluate((ref) => {
+      return window.A11yCap.resolveElementByRef(ref)?.resolution;
+    }, ref);
+
+    expect(resolution).toBe('exact');
+  });
+
+  test('should re-bind refs after the element is re-mounted', async ({
+    page,
+  }) => {
+    const snapshot = await page.evaluate(() => {
+      return window.A11yCap.snapshotForAI(document.body);
+    });
+    const ref = snapshot.match(/button "Save draft" \[ref=(e\d+)\]/)![1];
+
+    // Simulate a framework re-mounting the subtree with fresh elements
+    await page.evaluate(() => {
+      const main = document.getElementById('remount-container')!;
+      main.innerHTML = '<button>Save draft</button><button>Publish</button>';
+      main.querySelector('button')!.addEventListener('click', () => {
+        (window as any).saveClicked = true;
+      });
+    });
+
+    const result = await page.evaluate(async (ref) => {
+      return await window.A11yCap.toolHandlers.click_element.execute({
+        id: 'test-stable-ref',
+        type: 'click_element',
+        payload: { element: 'Save draft button', ref },
+      });
+    }, ref);
+
+    expect(result).toContain('re-bound heuristically');
+    expect(await page.evaluate(() => (window as any).saveClicked)).toBe(true);
+
+    // The ref now points at the new element, so later lookups are exact
+    const resolution = await page.evaluate((ref) => {
+      return window.A11yCap.resolveElementByRef(ref)?.resolution;
+    }, ref);
+    expect(resolution).toBe('exact');
+  });
+
+  test('should not re-bind when the landmark path differs', async ({
+    page,
+  }) => {
+    const snapshot = await page.evaluate(() => {
+      return window.A11yCap.snapshotForAI(document.body);
+    });
+    const ref = snapshot.match(/button "Publish" \[ref=(e\d+)\]/)![1];
+
+    await page.evaluate(() => {
+      document.getElementById('remount-container')!.remove();
+      const nav = document.createElement('nav');
+      nav.innerHTML = '<button>Publish</button>';
+      document.body.appendChild(nav);
+    });
+
+    const resolved = await page.evaluate((ref) => {
+      return window.A11yCap.resolveElementByRef(ref);
+    }, ref);
+
+    expect(resolved).toBeNull();
+  });
+
+  test('should not take over the ref of a later snapshot', async ({ page }) => {
+    const result = await page.evaluate(async () => {
+      const first = await window.A11yCap.snapshotForAI(document.body);
+      const oldRef = first.match(/button "Save draft" \[ref=(e\d+)\]/)![1];
+
+      const main = document.getElementById('remount-container')!;
+      main.innerHTML = '<button>Save draft</button><button>Publish</button>';
+      const second = await window.A11yCap.snapshotForAI(document.body);
+      const newRef = second.match(/button "Save draft" \[ref=(e\d+)\]/)![1];
+
+      const old = window.A11yCap.resolveElementByRef(oldRef);
+      const current = window.A11yCap.resolveElementByRef(newRef);
+      return {
+        changed: oldRef !== newRef,
+        old,
+        current: current?.resolution,
+        sameElement: current?.element === main.querySelector('button'),
+      };
+    });
+
+    expect(result.changed).toBe(true);
+    expect(result.old).toBeNull();
+    expect(result.current).toBe('exact');
+    expect(result.sameElement).toBe(true);
+  });
+});
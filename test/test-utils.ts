@@ -23,10 +23,10 @@ export async function setupA11yCapTest(
   // Navigate to test page
   await page.goto('http://localhost:14652');
   await page.waitForLoadState('networkidle');
-  
+
   // Wait for A11yCap to finish initializing
   await page.waitForFunction(() => window.A11yCap, { timeout });
-  
+
   // Optionally wait for React DevTools
   if (waitForReactDevTools) {
     await page.waitForFunction(() => window.__REACT_DEVTOOLS_GLOBAL_HOOK__, {
@@ -48,4 +48,48 @@ export async function loadA11yCapScript(
 ) {
   await page.addScriptTag({ path: scriptPath });
   await page.waitForFunction(() => window.A11yCap, { timeout });
-}
\ No newline at end of file
+}
+
+/**
+ * Execute an A11yCap tool handler in the page, the way the MCP server does
+ * @param page Playwright page object
+ * @param name Tool name, e.g. 'click_element'
+ * @param payload Tool payload without sessionId (default: {})
+ * @returns The tool result, or "Error: <message>" when the tool throws
+ */
+export async function runTool(
+  page: Page,
+  name: string,
+  payload: Record<string, unknown> = {}
+): Promise<string> {
+  return await page.evaluate(
+    async ({ name, payload }) => {
+      try {
+        return await window.A11yCap.toolHandlers[name].execute({
+          id: `test-${name}`,
+          type: name,
+          payload,
+        });
+      } catch (error) {
+        return `Error: ${(error as Error).message}`;
+      }
+    },
+    { name, payload }
+  );
+}
+
+/**
+ * Take an AI snapshot of the page and return the ref of an element
+ * @param page Playwright page object
+ * @param selector CSS selector of the element
+ */
+export async function getRef(page: Page, selector: string): Promise<string> {
+  return await page.evaluate(async (selector) => {
+    await window.A11yCap.snapshotForAI(document.body);
+    const element = document.querySelector(selector) as
+      | (Element & { _ariaRef?: { ref: string } })
+      | null;
+    if (!element?._ariaRef) throw new Error(`No ref for "${selector}"`);
+    return element._ariaRef.ref;
+  }, selector);
+}
@@ -0,0 +1,142 @@
+import { expect, test } from '@playwright/test';
+import { getRef, runTool, setupA11yCapTest } from './test-utils';
+
+test.describe('Type Text Contenteditable', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const section = document.createElement('section');
+      section.id = 'editor-section';
+      section.innerHTML = `
+        <div id="wrapper">
+          <div id="plain" contenteditable="true" role="textbox"
+            aria-label="Plain"><p>Old text</p></div>
+        </div>
+        <div id="rich" contenteditable="true" role="textbox"
+          aria-label="Rich"><p><br></p></div>
+        <div id="static">Not editable</div>
+      `;
+      document.body.appendChild(section);
+
+      (window as any).inputLog = [];
+      const plain = document.getElementById('plain')!;
+      for (const type of ['beforeinput', 'input']) {
+        plain.addEventListener(type, (event) => {
+          const e = event as InputEvent;
+          (window as any).inputLog.push(`${type} ${e.inputType} ${e.data}`);
+        });
+      }
+
+      // Editors like Lexical and ProseMirror cancel beforeinput and apply
+      // the edit to their own model
+      const rich = document.getElementById('rich')!;
+      rich.addEventListener('beforeinput', (event) => {
+        const e = event as InputEvent;
+        e.preventDefault();
+        if (e.inputType === 'insertText') {
+          const paragraph = rich.lastElementChild!;
+          if (paragraph.firstChild?.nodeName === 'BR')
+            paragraph.textContent = '';
+          paragraph.textContent += e.data!;
+        } else if (e.inputType === 'insertParagraph') {
+          rich.appendChild(document.createElement('p'));
+        }
+      });
+    });
+  });
+
+  test('should replace the content of a contenteditable element', async ({
+    page,
+  }) => {
+    const result = await runTool(page, 'type_text', {
+      element: 'plain',
+      ref: await getRef(page, '#plain'),
+      text: 'Hello',
+    });
+
+    expect(result).toMatch(
+      /Successfully typed "Hello" into contenteditable element with ref "e\d+"/
+    );
+    expect(result).toContain('Text is now: "Hello"');
+    expect(await page.textContent('#plain')).toBe('Hello');
+    expect(await page.evaluate(() => (window as any).inputLog)).toEqual([
+      'beforeinput insertText Hello',
+      'input insertText Hello',
+    ]);
+  });
+
+  test('should find the editing host inside a wrapper', async ({ page }) => {
+    const result = await runTool(page, 'type_text', {
+      element: 'wrapper',
+      ref: await getRef(page, '#wrapper'),
+      text: 'Wrapped',
+    });
+
+    expect(result).toContain('into contenteditable element');
+    expect(await page.textContent('#plain')).toBe('Wrapped');
+  });
+
+  test('should split lines into paragraphs', async ({ page }) => {
+    await runTool(page, 'type_text', {
+      element: 'plain',
+      ref: await getRef(page, '#plain'),
+      text: 'One\nTwo',
+    });
+
+    expect(await page.evaluate(() => (window as any).inputLog)).toEqual([
+      'beforeinput insertText One',
+      'input insertText One',
+      'beforeinput insertParagraph null',
+      'input insertParagraph null',
+      'beforeinput insertText Two',
+      'input insertText Two',
+    ]);
+    expect(await page.innerText('#plain')).toMatch(/^One\n+Two$/);
+  });
+
+  test('should type character by character when slowly is set', async ({
+    page,
+  }) => {
+    await runTool(page, 'type_text', {
+      element: 'plain',
+      ref: await getRef(page, '#plain'),
+      text: 'abc',
+      slowly: true,
+    });
+
+    expect(await page.textContent('#plain')).toBe('abc');
+    const log = await page.evaluate(() => (window as any).inputLog);
+    expect(log.filter((entry: string) => entry.startsWith('input'))).toEqual([
+      'input insertText a',
+      'input insertText b',
+      'input insertText c',
+    ]);
+  });
+
+  test('should let editors apply edits from beforeinput', async ({ page }) => {
+    const result = await runTool(page, 'type_text', {
+      element: 'rich',
+      ref: await getRef(page, '#rich'),
+      text: 'First\nSecond',
+    });
+
+    expect(result).toContain('Text is now:');
+    expect(result).not.toContain('Warning');
+    expect(
+      await page.evaluate(() => document.getElementById('rich')!.innerHTML)
+    ).toBe('<p>First</p><p>Second</p>');
+  });
+
+  test('should reject elements that are not editable', async ({ page }) => {
+    const result = await runTool(page, 'type_text', {
+      element: 'static',
+      ref: await getRef(page, '#static'),
+      text: 'x',
+    });
+
+    expect(result).toMatch(
+      /Error: Element with ref "e\d+" is not a text input element or contenteditable/
+    );
+  });
+});
@@ -0,0 +1,94 @@
+import { expect, test } from '@playwright/test';
+import { setupA11yCapTest } from './test-utils';
+
+test.describe('Viewport-Aware Snapshots', () => {
+  test.beforeEach(async ({ page }) => {
+    await setupA11yCapTest(page);
+
+    await page.evaluate(() => {
+      const spacer = document.createElement('div');
+      spacer.style.height = '3000px';
+      document.body.appendChild(spacer);
+
+      const button = document.createElement('button');
+      button.id = 'below-fold-button';
+      button.textContent = 'Below the fold';
+      document.body.appendChild(button);
+
+      const scroller = document.createElement('div');
+      scroller.id = 'scroll-box';
+      scroller.setAttribute('role', 'region');
+      scroller.setAttribute('aria-label', 'Scroll box');
+      scroller.style.height = '100px';
+      scroller.style.overflowY = 'auto';
+      const content = document.createElement('div');
+      content.style.height = '1000px';
+      content.textContent = 'Scrolled content';
+      scroller.appendChild(content);
+      document.body.insertBefore(scroller, document.body.firstChild);
+    });
+  });
+
+  const takeSnapshot = (payload: Record<string, unknown>) =>
+    window.A11yCap.toolHandlers.take_snapshot.execute({
+      id: 'test-viewport',
+      type: 'take_snapshot',
+      payload: { mode: 'ai', enableReact: false, max_chars: 10000, ...payload },
+    });
+
+  test('should mark offscreen elements', async ({ page }) => {
+    const snapshot = await page.evaluate(takeSnapshot, { viewport: 'mark' });
+
+    console.log('Marked snapshot:', snapshot);
+
+    expect(snapshot).toMatch(
+      /button "Below the fold" \[ref=e\d+\][^\n]*\[offscreen below\]/
+    );
+    expect(snapshot).toMatch(/heading "React Test Page"/);
+    expect(snapshot).not.toMatch(/heading "React Test Page"[^\n]*offscreen/);
+  });
+
+  test('should render only elements in the viewport', async ({ page }) => {
+    const snapshot = await page.evaluate(takeSnapshot, { viewport: 'only' });
+
+    expect(snapshot).toContain('heading "React Test Page"');
+    expect(snapshot).not.toContain('Below the fold');
+
+    await page.evaluate(() =>
+      document.getElementById('below-fold-button')?.scrollIntoView()
+    );
+
+    const scrolled = await page.evaluate(takeSnapshot, { viewport: 'only' });
+    expect(scrolled).toContain('Below the fold');
+    expect(scrolled).not.toContain('heading "React Test Page"');
+  });
+
+  test('should report the scroll position and scroll containers', async ({
+    page,
+  }) => {
+    await page.evaluate(() => {
+      window.scrollTo(0, 200);
+      document.getElementById('scroll-box')!.scrollTop = 300;
+    });
+
+    const snapshot = await page.evaluate(takeSnapshot, { viewport: 'mark' });
+
+    expect(snapshot).toMatch(
+      /^\[Snapshot ID: s\d+\]\nViewport: \d+x\d+, page scrolled to x=0, y=200 \(page \d+x\d+\)/
+    );
+    expect(snapshot).toContain('Scroll containers:');
+    expect(snapshot).toMatch(
+      /- region "Scroll box" \[ref=e\d+\]: scrolled to x=0, y=300 \(content \d+x1000, visible \d+x100\)/
+    );
+  });
+
+  test('should leave snapshots without the option unchanged', async ({
+    page,
+  }) => {
+    const snapshot = await page.evaluate(takeSnapshot, {});
+
+    expect(snapshot).not.toContain('Viewport:');
+    expect(snapshot).not.toContain('offscreen');
+    expect(snapshot).toContain('Below the fold');
+  });
+});